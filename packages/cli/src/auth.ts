@@ -0,0 +1,206 @@
+import fs from "fs";
+
+/**
+ * Credentials for crawling private docs. Stored per source as given:
+ * header values reference environment variables (`${DOCS_TOKEN}`) and files
+ * are referenced by path, so no secret ends up in the database.
+ */
+export interface AuthOptions {
+  headers?: string[]; // "Name: value" templates
+  cookieFile?: string; // Netscape cookies.txt or JSON export
+  storageState?: string; // Playwright storage state (Playwright only)
+}
+
+/**
+ * A cookie as read from a cookie file, in the shape Playwright expects.
+ */
+export interface AuthCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  secure: boolean;
+  expires: number; // seconds since epoch, -1 for session cookies
+}
+
+/**
+ * Request headers for a URL: the expanded --header values plus a Cookie
+ * header built from the cookie file entries that match the URL.
+ */
+export type HeadersFor = (url: string) => Record<string, string>;
+
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+// Headers whose values are credentials and must come from the environment
+const SENSITIVE_HEADER = /^(authorization|proxy-authorization|cookie)$|token|secret|key|auth|session|password/i;
+
+/**
+ * Parses a --header option into a name and value template.
+ * Throws if a credential header has a literal value instead of an env var reference.
+ */
+export function parseHeaderOption(header: string): { name: string; value: string } {
+  const separator = header.indexOf(":");
+  if (separator <= 0) {
+    throw new Error(`Invalid header "${header}". Use "Name: value".`);
+  }
+
+  const name = header.slice(0, separator).trim();
+  const value = header.slice(separator + 1).trim();
+
+  if (SENSITIVE_HEADER.test(name) && !/\$\{[^}]+\}/.test(value)) {
+    throw new Error(
+      `Refusing to store a literal ${name} header. Put the secret in an environment variable ` +
+        `and reference it instead: --header '${name}: Bearer \${DOCS_TOKEN}'`
+    );
+  }
+
+  return { name, value };
+}
+
+/**
+ * Checks the auth options up front so a bad header or missing file fails
+ * before anything is crawled.
+ */
+export function validateAuthOptions(auth: AuthOptions): void {
+  for (const header of auth.headers || []) {
+    expandEnv(parseHeaderOption(header).value, header);
+  }
+  if (auth.cookieFile) {
+    readCookieFile(auth.cookieFile);
+  }
+  if (auth.storageState && !fs.existsSync(auth.storageState)) {
+    throw new Error(`Storage state file not found: ${auth.storageState}`);
+  }
+}
+
+/**
+ * Builds the per-URL request headers for a crawl. Env vars are expanded and
+ * the cookie file is read once, here.
+ */
+export function createHeadersFor(auth: AuthOptions): HeadersFor {
+  const headers: Record<string, string> = {};
+  for (const header of auth.headers || []) {
+    const { name, value } = parseHeaderOption(header);
+    headers[name] = expandEnv(value, header);
+  }
+
+  const cookies = auth.cookieFile ? readCookieFile(auth.cookieFile) : [];
+
+  return (url: string) => {
+    const cookieHeader = cookiesFor(cookies, url)
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join("; ");
+    return cookieHeader ? { ...headers, Cookie: cookieHeader } : { ...headers };
+  };
+}
+
+/**
+ * Reads a cookie file: Netscape cookies.txt (as written by curl, wget and
+ * browser extensions) or JSON (an array of cookies, or Playwright storage state).
+ * Expired cookies are dropped.
+ */
+export function readCookieFile(filePath: string): AuthCookie[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Cookie file not found: ${filePath}`);
+  }
+
+  const text = fs.readFileSync(filePath, "utf-8");
+  const cookies = text.trimStart().startsWith("[") || text.trimStart().startsWith("{")
+    ? parseJsonCookies(text, filePath)
+    : parseNetscapeCookies(text);
+
+  const now = Date.now() / 1000;
+  return cookies.filter((cookie) => cookie.expires <= 0 || cookie.expires > now);
+}
+
+function parseNetscapeCookies(text: string): AuthCookie[] {
+  const cookies: AuthCookie[] = [];
+
+  for (let line of text.split("\n")) {
+    line = line.replace(/\r$/, "");
+    // curl marks HttpOnly cookies with a prefix on an otherwise commented-out line
+    if (line.startsWith("#HttpOnly_")) {
+      line = line.slice("#HttpOnly_".length);
+    } else if (line.startsWith("#") || !line.trim()) {
+      continue;
+    }
+
+    const fields = line.split("\t");
+    if (fields.length < 7) continue;
+
+    const [domain, , cookiePath, secure, expires, name, ...valueParts] = fields;
+    cookies.push({
+      name,
+      value: valueParts.join("\t"),
+      domain,
+      path: cookiePath || "/",
+      secure: secure.toUpperCase() === "TRUE",
+      expires: Number(expires) || -1,
+    });
+  }
+
+  return cookies;
+}
+
+function parseJsonCookies(text: string, filePath: string): AuthCookie[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`Cookie file is neither Netscape format nor valid JSON: ${filePath}`);
+  }
+
+  const entries = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { cookies?: unknown }).cookies)
+    ? (data as { cookies: unknown[] }).cookies
+    : [];
+
+  return entries
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === "object")
+    .filter((entry): entry is Record<string, unknown> & { name: string } => typeof entry.name === "string" && !!entry.domain)
+    .map((entry) => ({
+      name: entry.name,
+      value: String(entry.value ?? ""),
+      domain: String(entry.domain),
+      path: typeof entry.path === "string" && entry.path ? entry.path : "/",
+      secure: !!entry.secure,
+      // Playwright uses `expires`, browser extensions `expirationDate`
+      expires: Number(entry.expires ?? entry.expirationDate ?? -1),
+    }));
+}
+
+/**
+ * Picks the cookies a browser would send to a URL: matching domain
+ * (subdomains included for dotted domains), path prefix, and https for secure cookies.
+ */
+function cookiesFor(cookies: AuthCookie[], url: string): AuthCookie[] {
+  const parsed = new URL(url);
+  const host = parsed.hostname.toLowerCase();
+
+  return cookies.filter((cookie) => {
+    const domain = cookie.domain.toLowerCase();
+    const domainMatches = domain.startsWith(".")
+      ? host === domain.slice(1) || host.endsWith(domain)
+      : host === domain;
+
+    return (
+      domainMatches &&
+      parsed.pathname.startsWith(cookie.path) &&
+      (!cookie.secure || parsed.protocol === "https:")
+    );
+  });
+}
+
+/**
+ * Replaces `${NAME}` references with environment variables.
+ */
+function expandEnv(value: string, header: string): string {
+  return value.replace(ENV_REFERENCE, (_, name: string) => {
+    const envValue = process.env[name];
+    if (envValue === undefined) {
+      throw new Error(`Environment variable ${name} is not set (used by --header '${header}')`);
+    }
+    return envValue;
+  });
+}
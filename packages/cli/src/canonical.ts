@@ -0,0 +1,101 @@
+import { CrawledDocument, SkippedUrl } from "./crawl.js";
+import { hashContent } from "./utils.js";
+
+// Fragments that are client-side routes (`#/guide`, `#!/guide`) rather than in-page anchors
+const HASH_ROUTE = /^#!?\//;
+
+/**
+ * Checks whether a URL points at a hash route of a single-page app.
+ */
+export function isHashRoute(url: string): boolean {
+  try {
+    return HASH_ROUTE.test(new URL(url).hash);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalizes a URL so aliases of the same page compare equal.
+ * Lowercases the host, drops the fragment, default ports, tracking params,
+ * trailing slashes and a trailing index.html.
+ * With keepHashRoutes, `#/route` fragments are kept so each route stays a page of its own.
+ */
+export function normalizeUrl(url: string, keepHashRoutes = false): string {
+  try {
+    const parsed = new URL(url);
+    // Lowercase the hostname
+    parsed.hostname = parsed.hostname.toLowerCase();
+    parsed.hash = keepHashRoutes && HASH_ROUTE.test(parsed.hash) ? parsed.hash.replace(/\/+$/, "") : "";
+    // Drop index.html and trailing slashes
+    parsed.pathname = parsed.pathname.replace(/\/index\.html?$/i, "/").replace(/\/+$/, "") || "/";
+    // Remove common tracking params
+    for (const param of [...parsed.searchParams.keys()]) {
+      if (param.startsWith("utm_")) {
+        parsed.searchParams.delete(param);
+      }
+    }
+    return parsed.toString();
+  } catch {
+    // If URL parsing fails, just do basic normalization
+    return url.toLowerCase().replace(/\/+$/, "");
+  }
+}
+
+/**
+ * Picks the URL a page should be indexed under: its `<link rel="canonical">`
+ * when that points somewhere on the same site, otherwise the URL it was fetched from.
+ */
+export function resolveCanonicalUrl(canonicalHref: string | null | undefined, pageUrl: string): string {
+  if (!canonicalHref) return pageUrl;
+
+  try {
+    const canonical = new URL(canonicalHref, pageUrl);
+    if (canonical.origin !== new URL(pageUrl).origin) {
+      return pageUrl;
+    }
+    canonical.hash = "";
+    return canonical.href;
+  } catch {
+    return pageUrl;
+  }
+}
+
+/**
+ * Collapses pages indexed more than once: the same URL after normalization
+ * (trailing slashes, ?utm_ params, canonical aliases) or the exact same content
+ * under different URLs (`?lang=`, mirrors, redirects). The first copy wins,
+ * which for breadth-first crawls is the shallowest one.
+ */
+export function dedupeDocuments(documents: CrawledDocument[], keepHashRoutes = false): {
+  documents: CrawledDocument[];
+  duplicates: SkippedUrl[];
+} {
+  const byUrl = new Map<string, string>();
+  const byContent = new Map<string, string>();
+  const unique: CrawledDocument[] = [];
+  const duplicates: SkippedUrl[] = [];
+
+  for (const document of documents) {
+    const urlKey = normalizeUrl(document.url, keepHashRoutes);
+    const contentKey = hashContent(document.content.replace(/\s+/g, " ").trim());
+
+    const sameUrl = byUrl.get(urlKey);
+    if (sameUrl) {
+      duplicates.push({ url: document.url, reason: `same page as ${sameUrl}` });
+      continue;
+    }
+
+    const sameContent = byContent.get(contentKey);
+    if (sameContent) {
+      duplicates.push({ url: document.url, reason: `same content as ${sameContent}` });
+      continue;
+    }
+
+    byUrl.set(urlKey, document.url);
+    byContent.set(contentKey, document.url);
+    unique.push(document);
+  }
+
+  return { documents: unique, duplicates };
+}
@@ -1,72 +1,437 @@
 import { CrawledDocument } from "./crawl.js";
+import { countTokens } from "./tokens.js";
+
+export type ChunkType = "prose" | "code" | "table";
+
+/**
+ * How big chunks get, in tokens, remembered per source so updates chunk the same way.
+ */
+export interface ChunkOptions {
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
 
 export interface DocumentChunk {
   content: string;
   url: string;
   title: string;
   chunkIndex: number;
+  // What the chunk mostly is, for filtering search results
+  type: ChunkType;
+  // Headings the chunk sits under, e.g. "Auth > Tokens > Refresh"
+  breadcrumb?: string;
+  // Id of the heading the chunk starts under, for linking to page#anchor
+  anchor?: string;
+  version?: string;
   embedding?: number[];
 }
 
-const CHUNK_SIZE = 500; // tokens (roughly 4 chars per token)
-const CHUNK_OVERLAP = 50;
+/**
+ * A heading and the text up to the next heading.
+ */
+interface Section {
+  headings: string[];
+  anchor?: string;
+  text: string;
+}
 
 /**
- * Splits documents into smaller chunks for embedding.
- * Uses a simple character-based approach with overlap to maintain context.
+ * A paragraph, fenced code block, table or heading within a section.
  */
-export function chunkDocuments(documents: CrawledDocument[]): DocumentChunk[] {
-  const chunks: DocumentChunk[] = [];
-  const charSize = CHUNK_SIZE * 4; // Approximate chars per chunk
-  const charOverlap = CHUNK_OVERLAP * 4;
+interface Block {
+  kind: ChunkType | "heading";
+  text: string;
+}
 
-  for (const doc of documents) {
-    const text = doc.content;
-
-    // For short documents, keep as single chunk
-    if (text.length <= charSize) {
-      chunks.push({
-        content: text,
-        url: doc.url,
-        title: doc.title,
-        chunkIndex: 0,
-      });
-      continue;
-    }
+/**
+ * Chunk sizes in tokens, worked out from ChunkOptions.
+ */
+interface ChunkLimits {
+  size: number;
+  overlap: number;
+  // Sections smaller than this are merged with the ones after them
+  min: number;
+  // Code blocks are never split below this, even when that makes an oversized chunk
+  maxCode: number;
+}
 
-    // Split into overlapping chunks
-    let start = 0;
-    let chunkIndex = 0;
+export const DEFAULT_CHUNK_SIZE = 500;
+export const DEFAULT_CHUNK_OVERLAP = 50;
 
-    while (start < text.length) {
-      let end = start + charSize;
+// The embedding model's input limit is 8191 tokens; leave room for the breadcrumb
+const MAX_CHUNK_TOKENS = 8000;
 
-      // Try to end at a sentence boundary
-      if (end < text.length) {
-        const lastPeriod = text.lastIndexOf(".", end);
-        const lastNewline = text.lastIndexOf("\n", end);
-        const boundary = Math.max(lastPeriod, lastNewline);
+const BREADCRUMB_SEPARATOR = " > ";
+// A heading's id, as the extractor writes it: "## Title {#title}"
+const HEADING_ID = /\s*\{#([^\s{}]+)\}$/;
 
-        if (boundary > start + charSize / 2) {
-          end = boundary + 1;
-        }
-      }
+/**
+ * Splits documents into smaller chunks for embedding, along their headings.
+ *
+ * Each section (a heading and its text) becomes a chunk. Runs of small sections
+ * are merged until they reach a fifth of the chunk size, and sections over the
+ * chunk size (in tokens, as the embedding model counts them) are split between
+ * paragraphs, carrying a trailing paragraph up to the overlap over to the next chunk.
+ * Fenced code blocks are never split and stay with the paragraph that introduces them.
+ * Every chunk records the headings it starts under as its breadcrumb, and whether
+ * it's mostly prose, code or a table.
+ */
+export function chunkDocuments(documents: CrawledDocument[], options: ChunkOptions = {}): DocumentChunk[] {
+  const size = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const limits: ChunkLimits = {
+    size,
+    overlap: options.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP,
+    min: Math.round(size / 5),
+    maxCode: Math.min(size * 4, MAX_CHUNK_TOKENS),
+  };
+  const chunks: DocumentChunk[] = [];
+
+  for (const doc of documents) {
+    let chunkIndex = 0;
+
+    for (const section of mergeSections(splitSections(doc.content), limits)) {
+      const breadcrumb = section.headings.join(BREADCRUMB_SEPARATOR) || undefined;
 
-      const chunkText = text.slice(start, end).trim();
+      for (const blocks of splitSection(section.text, limits)) {
+        // A heading with nothing under it isn't worth a chunk
+        if (blocks.every((block) => block.kind === "heading")) continue;
 
-      if (chunkText.length > 50) {
         chunks.push({
-          content: chunkText,
+          content: blocks.map((block) => block.text).join("\n\n"),
           url: doc.url,
           title: doc.title,
           chunkIndex,
+          type: getChunkType(blocks),
+          breadcrumb,
+          anchor: section.anchor,
         });
         chunkIndex++;
       }
-
-      start = end - charOverlap;
     }
   }
 
   return chunks;
 }
+
+/**
+ * The text a chunk is embedded as: its breadcrumb, so a passage deep in a
+ * page still says which API it describes, followed by its content.
+ */
+export function getEmbeddingText(chunk: DocumentChunk): string {
+  return chunk.breadcrumb ? `${chunk.breadcrumb}\n\n${chunk.content}` : chunk.content;
+}
+
+/**
+ * Checks that chunk sizes are whole numbers the embedding model can take,
+ * with an overlap smaller than the chunks.
+ */
+export function validateChunkOptions(options: ChunkOptions): void {
+  const { chunkSize = DEFAULT_CHUNK_SIZE, chunkOverlap = DEFAULT_CHUNK_OVERLAP } = options;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_TOKENS) {
+    throw new Error(`Chunk size must be a whole number of tokens from 1 to ${MAX_CHUNK_TOKENS}`);
+  }
+  if (!Number.isInteger(chunkOverlap) || chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+    throw new Error("Chunk overlap must be a whole number of tokens smaller than the chunk size");
+  }
+}
+
+/**
+ * Splits Markdown into sections at its headings, tracking the heading hierarchy.
+ * Lines starting with # inside code fences are not headings.
+ *
+ * Extracted headings end in a `{#id}` attribute when the page gave them an id.
+ * It's taken off the text and becomes the section's anchor; a heading without
+ * one falls back to the anchor of the nearest heading above it that has one.
+ */
+function splitSections(markdown: string): Section[] {
+  const sections: Section[] = [];
+  const stack: Array<{ level: number; text: string; anchor?: string }> = [];
+  let current: Section = { headings: [], text: "" };
+  let fence: string | null = null;
+
+  for (const line of markdown.split("\n")) {
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1].startsWith(fence)) {
+        fence = null;
+      }
+    }
+
+    const heading = fence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (!heading) {
+      current.text += `${line}\n`;
+      continue;
+    }
+
+    if (current.text.trim()) {
+      sections.push(current);
+    }
+
+    const level = heading[1].length;
+    const attribute = heading[2].match(HEADING_ID);
+    const text = attribute ? heading[2].slice(0, attribute.index) : heading[2];
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    stack.push({ level, text: cleanHeading(text), anchor: attribute?.[1] });
+    current = {
+      headings: stack.map((entry) => entry.text),
+      anchor: [...stack].reverse().find((entry) => entry.anchor)?.anchor,
+      text: `${heading[1]} ${text}\n`,
+    };
+  }
+
+  if (current.text.trim()) {
+    sections.push(current);
+  }
+  return sections;
+}
+
+/**
+ * Strips Markdown links, emphasis and permalink markers from heading text.
+ */
+function cleanHeading(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_]{1,2}([^*_]+)[*_]{1,2}/g, "$1")
+    .replace(/\s*[¶#]\s*$/, "")
+    .trim();
+}
+
+/**
+ * Merges runs of small sections into the section before them, so a page of
+ * one-line sections doesn't become a pile of tiny chunks.
+ */
+function mergeSections(sections: Section[], limits: ChunkLimits): Section[] {
+  const merged: Section[] = [];
+  let lastTokens = 0;
+
+  for (const section of sections) {
+    const last = merged[merged.length - 1];
+    const tokens = countTokens(section.text);
+    if (last && lastTokens < limits.min && lastTokens + tokens <= limits.size) {
+      last.text += `\n${section.text}`;
+      lastTokens += tokens;
+    } else {
+      merged.push({ ...section });
+      lastTokens = tokens;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Splits Markdown into paragraphs, code blocks, tables and headings.
+ * A code block runs from its opening fence to its closing one, blank lines included.
+ */
+function splitBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  let fence: string | null = null;
+
+  for (const line of markdown.split("\n")) {
+    if (fence) {
+      current!.text += `\n${line}`;
+      const fenceMatch = line.match(/^\s*(`{3,}|~{3,})\s*$/);
+      if (fenceMatch && fenceMatch[1].startsWith(fence)) {
+        fence = null;
+        pushBlock(blocks, current);
+        current = null;
+      }
+      continue;
+    }
+
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      pushBlock(blocks, current);
+      fence = fenceMatch[1];
+      current = { kind: "code", text: line };
+    } else if (!line.trim()) {
+      pushBlock(blocks, current);
+      current = null;
+    } else if (/^#{1,6}\s/.test(line)) {
+      pushBlock(blocks, current);
+      current = null;
+      blocks.push({ kind: "heading", text: line.trim() });
+    } else {
+      const kind: ChunkType = /^\s*\|/.test(line) ? "table" : "prose";
+      if (current && current.kind === kind) {
+        current.text += `\n${line}`;
+      } else {
+        pushBlock(blocks, current);
+        current = { kind, text: line };
+      }
+    }
+  }
+
+  // An unclosed fence runs to the end of the section
+  pushBlock(blocks, current);
+  return blocks;
+}
+
+function pushBlock(blocks: Block[], block: Block | null): void {
+  if (block && block.text.trim()) {
+    blocks.push({ kind: block.kind, text: block.text.trimEnd() });
+  }
+}
+
+/**
+ * Splits a section into chunks of blocks, breaking it between paragraphs once
+ * it's over the chunk size.
+ *
+ * Blocks are first grouped into units that must stay together: a heading with
+ * the block after it, and a paragraph with the code blocks that follow it.
+ */
+function splitSection(text: string, limits: ChunkLimits): Block[][] {
+  const blocks = splitBlocks(text);
+  if (countTokens(text) <= limits.size) {
+    return [blocks];
+  }
+
+  const units: Block[][] = [];
+  for (const block of blocks.flatMap((block) => splitBlock(block, limits))) {
+    const unit = units[units.length - 1];
+    const follows =
+      unit &&
+      (unit.every((b) => b.kind === "heading") ||
+        (block.kind === "code" && unit[unit.length - 1].kind !== "table" &&
+          // Keep a run of examples together only while they fit
+          (unit[unit.length - 1].kind !== "code" || countBlocks(unit) + countTokens(block.text) <= limits.size)));
+    if (follows) {
+      unit.push(block);
+    } else {
+      units.push([block]);
+    }
+  }
+
+  const pieces: Block[][] = [];
+  let current: Block[] = [];
+  let currentTokens = 0;
+
+  for (const unit of units) {
+    const tokens = countBlocks(unit);
+    if (current.length > 0 && currentTokens + tokens > limits.size) {
+      pieces.push(current);
+
+      // Carry a short last paragraph over so the next piece doesn't start cold
+      const last = current[current.length - 1];
+      const lastTokens = countTokens(last.text);
+      const carry = last.kind === "prose" && lastTokens <= limits.overlap && lastTokens + tokens <= limits.size;
+      current = carry ? [last] : [];
+      currentTokens = carry ? lastTokens : 0;
+    }
+    current.push(...unit);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Splits a block that's too big for one chunk: paragraphs and tables over
+ * the chunk size, code blocks only over the code limit.
+ */
+function splitBlock(block: Block, limits: ChunkLimits): Block[] {
+  const tokens = countTokens(block.text);
+  if (block.kind === "code") {
+    return tokens > limits.maxCode
+      ? splitCodeBlock(block.text, limits).map((text) => ({ kind: block.kind, text }))
+      : [block];
+  }
+  return tokens > limits.size
+    ? splitBySize(block.text, tokens, limits).map((text) => ({ kind: block.kind, text }))
+    : [block];
+}
+
+/**
+ * Splits a huge code block between lines, closing and reopening its fence
+ * around every piece so each one still reads as code.
+ */
+function splitCodeBlock(code: string, limits: ChunkLimits): string[] {
+  const lines = code.split("\n");
+  const opening = lines.shift()!;
+  const fence = opening.trim().match(/^(`{3,}|~{3,})/)![1];
+  if (lines.length > 0 && lines[lines.length - 1].trim().startsWith(fence)) {
+    lines.pop();
+  }
+
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  for (const line of lines) {
+    const tokens = countTokens(line) + 1;
+    if (current.length > 0 && currentTokens + tokens > limits.size) {
+      pieces.push(current.join("\n"));
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(line);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) {
+    pieces.push(current.join("\n"));
+  }
+
+  return pieces.map((piece) => `${opening}\n${piece}\n${fence}`);
+}
+
+/**
+ * Tags a chunk by the kind of block most of its text is in. Headings don't count.
+ */
+function getChunkType(blocks: Block[]): ChunkType {
+  const sizes: Record<ChunkType, number> = { prose: 0, code: 0, table: 0 };
+  for (const block of blocks) {
+    if (block.kind !== "heading") {
+      sizes[block.kind] += block.text.length;
+    }
+  }
+  if (sizes.code > sizes.prose && sizes.code >= sizes.table) return "code";
+  if (sizes.table > sizes.prose) return "table";
+  return "prose";
+}
+
+function countBlocks(blocks: Block[]): number {
+  return blocks.reduce((sum, block) => sum + countTokens(block.text), 0);
+}
+
+/**
+ * Splits a single long paragraph into overlapping pieces, ending each at a
+ * sentence or line boundary where possible. Sizes are converted to characters
+ * at the paragraph's own characters-per-token rate, which is far lower for CJK
+ * text or dense code than for English.
+ */
+function splitBySize(text: string, tokens: number, limits: ChunkLimits): string[] {
+  const pieces: string[] = [];
+  const charsPerToken = text.length / tokens;
+  const charSize = Math.max(1, Math.floor(limits.size * charsPerToken));
+  const charOverlap = Math.min(Math.floor(limits.overlap * charsPerToken), charSize - 1);
+  let start = 0;
+
+  while (start < text.length) {
+    let end = start + charSize;
+
+    // Try to end at a sentence boundary
+    if (end < text.length) {
+      const lastPeriod = Math.max(text.lastIndexOf(".", end), text.lastIndexOf("。", end));
+      const lastNewline = text.lastIndexOf("\n", end);
+      const boundary = Math.max(lastPeriod, lastNewline);
+
+      if (boundary > start + charSize / 2) {
+        end = boundary + 1;
+      }
+    }
+
+    pieces.push(text.slice(start, end).trim());
+    if (end >= text.length) break;
+    // A big overlap must still move the window forward
+    start = Math.max(end - charOverlap, start + 1);
+  }
+
+  return pieces;
+}
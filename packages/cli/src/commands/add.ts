@@ -2,11 +2,16 @@ import fs from "fs";
 import path from "path";
 import ora from "ora";
 import chalk from "chalk";
-import { crawlUrl } from "../crawl.js";
-import { crawlWithFirecrawl } from "../firecrawl.js";
-import { crawlWithPlaywright } from "../playwright.js";
-import { chunkDocuments } from "../chunk.js";
-import { generateEmbeddings } from "../embed.js";
+import { CrawlResult, validateCrawlOptions } from "../crawl.js";
+import { chooseCrawlMethod, getCrawler, isSiteCrawl, withCrawlDefaults, CrawlMethod } from "../crawlers.js";
+import { applySitePreset, detectSite } from "../generators.js";
+import { isLocalSource, toFileUrl } from "../local.js";
+import { chunkDocuments, validateChunkOptions } from "../chunk.js";
+import { generateEmbeddings, formatCacheHits, formatEmbeddingProgress, validateEmbedOptions, EmbedOptions } from "../embed.js";
+import { applyVersion } from "../version.js";
+import { validateAuthOptions } from "../auth.js";
+import { validateExtractOptions } from "../extract.js";
+import { printCrawlSummary } from "../summary.js";
 import { getServersDir } from "../utils.js";
 import {
   openDatabase,
@@ -14,12 +19,20 @@ import {
   findSourceByUrl,
   getOrCreateSource,
   deleteChunksForSource,
+  deletePagesForSource,
+  savePages,
   rebuildVectorTable,
   insertChunkWithEmbedding,
   updateSourceMetadata,
   getCrawlState,
   saveCrawlState,
   clearCrawlState,
+  getSourceCrawlOptions,
+  saveSourceCrawlOptions,
+  getEmbeddingConfig,
+  setSourceVersion,
+  SourceCrawlOptions,
+  CrawlState,
 } from "../db-utils.js";
 
 interface AddOptions {
@@ -28,6 +41,31 @@ interface AddOptions {
   maxPages?: string;
   firecrawl?: boolean;
   playwright?: boolean;
+  sitemapOnly?: boolean;
+  llmsTxt?: boolean;
+  ignoreRobots?: boolean;
+  concurrency?: string;
+  rateLimit?: string;
+  include?: string[];
+  exclude?: string[];
+  pathScope?: boolean;
+  baseUrl?: string;
+  openapi?: boolean;
+  docVersion?: string;
+  header?: string[];
+  cookieFile?: string;
+  storageState?: string;
+  waitFor?: string;
+  click?: string[];
+  hashRoutes?: boolean;
+  blockResources?: boolean;
+  contentSelector?: string[];
+  removeSelector?: string[];
+  chunkSize?: string;
+  chunkOverlap?: string;
+  embeddingConcurrency?: string;
+  embeddingTpm?: string;
+  detect?: boolean;
   force?: boolean;
   continue?: boolean;
 }
@@ -48,8 +86,41 @@ export async function addToServer(url: string, options: AddOptions): Promise<voi
     process.exit(1);
   }
 
-  const maxDepth = parseInt(options.depth || "3", 10);
+  // Local directories are stored as file:// URLs so `update` can find them again
+  if (isLocalSource(url)) {
+    url = toFileUrl(url);
+  }
+
   const maxPages = parseInt(options.maxPages || "100", 10);
+  let crawlMethod: CrawlMethod = chooseCrawlMethod(url, options);
+  let crawlOptions: SourceCrawlOptions = {
+    maxDepth: parseInt(options.depth || "3", 10),
+    maxPages,
+    sitemapOnly: options.sitemapOnly,
+    ignoreRobots: options.ignoreRobots,
+    concurrency: parseInt(options.concurrency || "5", 10),
+    rateLimit: parseFloat(options.rateLimit || "5"),
+    include: options.include,
+    exclude: options.exclude,
+    pathScope: options.pathScope,
+    baseUrl: options.baseUrl,
+    llmsTxt: options.llmsTxt,
+    headers: options.header,
+    cookieFile: options.cookieFile && path.resolve(options.cookieFile),
+    storageState: options.storageState && path.resolve(options.storageState),
+    waitFor: options.waitFor,
+    clickSelectors: options.click,
+    hashRoutes: options.hashRoutes,
+    blockResources: options.blockResources,
+    contentSelectors: options.contentSelector,
+    removeSelectors: options.removeSelector,
+    chunkSize: parseInt(options.chunkSize || "500", 10),
+    chunkOverlap: parseInt(options.chunkOverlap || "50", 10),
+  };
+  const embedOptions: EmbedOptions = {
+    concurrency: options.embeddingConcurrency ? parseInt(options.embeddingConcurrency, 10) : undefined,
+    tokensPerMinute: options.embeddingTpm ? parseInt(options.embeddingTpm, 10) : undefined,
+  };
 
   console.log(chalk.blue(`\nAdding docs to ${serverName}\n`));
 
@@ -63,56 +134,99 @@ export async function addToServer(url: string, options: AddOptions): Promise<voi
 
   // Check for existing source (deduplication)
   const existingSource = findSourceByUrl(db, url);
-  let sourceId: number;
-  let isUpdate = false;
-
-  if (existingSource && !options.force) {
-    // Handle continue option
-    if (options.continue) {
-      const crawlState = getCrawlState(db, existingSource.id);
-      if (!crawlState || !crawlState.pendingUrls?.length) {
-        console.error(chalk.red("No pending crawl to continue for this URL."));
-        console.error(chalk.gray("Use without --continue to start fresh."));
-        db.close();
-        process.exit(1);
-      }
-      console.log(chalk.yellow(`Resuming crawl with ${crawlState.pendingUrls.length} pending URLs...`));
-      sourceId = existingSource.id;
-      // TODO: Pass crawlState to crawler when resume is fully implemented
-    } else {
-      console.log(chalk.yellow(`\nSource already exists. Updating (replacing old content)...`));
+  let crawlState: CrawlState | null = null;
 
-      // Delete old chunks for this source
-      const deletedCount = deleteChunksForSource(db, existingSource.id);
-      console.log(chalk.gray(`Removed ${deletedCount} old chunks`));
+  if (options.continue && (!existingSource || options.force)) {
+    console.error(chalk.red("No pending crawl to continue for this URL."));
+    console.error(chalk.gray("Use without --continue to start fresh."));
+    db.close();
+    process.exit(1);
+  }
 
-      sourceId = existingSource.id;
-      isUpdate = true;
+  if (existingSource && !options.force && options.continue) {
+    crawlState = getCrawlState(db, existingSource.id);
+    if (!crawlState || !crawlState.pending?.length) {
+      console.error(chalk.red("No pending crawl to continue for this URL."));
+      console.error(chalk.gray("Use without --continue to start fresh."));
+      db.close();
+      process.exit(1);
+    }
+
+    // Carry on with the same crawler and scope the crawl started with
+    crawlMethod = chooseCrawlMethod(url, options, existingSource.crawl_method);
+    crawlOptions = { ...getSourceCrawlOptions(existingSource), maxPages };
+  }
+
+  // Catch bad crawl limits, literal secrets, unset env vars, missing files, bad selectors and chunk sizes before crawling
+  try {
+    validateCrawlOptions(crawlOptions);
+    validateAuthOptions(crawlOptions);
+    validateExtractOptions(crawlOptions);
+    validateChunkOptions(crawlOptions);
+    validateEmbedOptions(embedOptions);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${(error as Error).message}`));
+    db.close();
+    process.exit(1);
+  }
+
+  // A re-added source is replaced, but only once its new content is ready
+  const isUpdate = !!existingSource && !options.force && !crawlState;
+  if (crawlState) {
+    console.log(chalk.yellow(`Resuming crawl with ${crawlState.pending.length} pending URLs...`));
+  } else if (isUpdate) {
+    console.log(chalk.yellow(`\nSource already exists. Updating (replacing old content)...`));
+  }
+
+  // Recognize the docs generator and use its selectors, sitemap and version/locale excludes
+  if (!crawlState && options.detect !== false && isSiteCrawl(crawlMethod)) {
+    const detectSpinner = ora("Detecting docs generator...").start();
+    const site = await detectSite(url, crawlOptions);
+    crawlOptions = applySitePreset(crawlOptions, site);
+    if (site.generator) {
+      detectSpinner.succeed(`Detected ${site.generator} (pass --no-detect to skip its preset)`);
+    } else {
+      detectSpinner.stop();
+    }
+    if (site.needsRendering && crawlMethod === "default") {
+      crawlMethod = "playwright";
+      console.log(chalk.gray("The start page only renders with JavaScript, so crawling with Playwright"));
     }
-  } else {
-    // Create new source
-    sourceId = getOrCreateSource(db, url);
   }
 
+  // A re-added source keeps its version label unless a new one is given
+  const versionLabel = options.docVersion ?? (options.force ? null : existingSource?.version) ?? null;
+
   // Crawl
-  const crawlMethod = options.firecrawl ? "firecrawl" : options.playwright ? "playwright" : "default";
-  const crawlSpinner = ora(
-    crawlMethod === "firecrawl"
-      ? "Crawling with Firecrawl..."
-      : crawlMethod === "playwright"
-      ? "Crawling with Playwright (this may take a while)..."
-      : "Crawling pages..."
-  ).start();
-
-  let documents;
-  if (crawlMethod === "firecrawl") {
-    documents = await crawlWithFirecrawl(url, { maxPages });
-  } else if (crawlMethod === "playwright") {
-    documents = await crawlWithPlaywright(url, { maxDepth, maxPages });
-  } else {
-    documents = await crawlUrl(url, { maxDepth, maxPages });
+  const crawler = getCrawler(crawlMethod);
+  const crawlSpinner = ora(crawler.label).start();
+
+  // Ctrl-C stops the crawl but still indexes what we have and saves the frontier.
+  // A second Ctrl-C exits as usual.
+  const abortController = new AbortController();
+  const onInterrupt = () => {
+    crawlSpinner.text = "Stopping crawl after in-flight pages...";
+    abortController.abort();
+  };
+  process.once("SIGINT", onInterrupt);
+
+  const resume = crawlState ?? undefined;
+  const signal = abortController.signal;
+
+  let crawlResult: CrawlResult;
+  try {
+    crawlResult = await crawler.crawl(url, { ...withCrawlDefaults(crawlOptions), resume, signal });
+  } catch (error) {
+    crawlSpinner.fail("Failed to crawl documentation");
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    db.close();
+    process.exit(1);
   }
+  process.off("SIGINT", onInterrupt);
+
+  const { documents } = crawlResult;
   crawlSpinner.succeed(`Crawled ${documents.length} pages`);
+  printCrawlSummary(crawlResult);
 
   if (documents.length === 0) {
     console.error(chalk.red("No content found. Check the URL."));
@@ -120,41 +234,87 @@ export async function addToServer(url: string, options: AddOptions): Promise<voi
     process.exit(1);
   }
 
-  // Check if max pages was hit (for resume feature)
-  const maxPagesReached = documents.length >= maxPages;
-  if (maxPagesReached) {
+  // Check if the crawl stopped early (for resume feature)
+  const interrupted = signal.aborted;
+  const crawlIncomplete = crawlResult.pending.length > 0;
+  if (interrupted) {
+    console.log(chalk.yellow(`\nCrawl interrupted. Indexing the pages crawled so far; use --continue to crawl the rest.`));
+  } else if (crawlIncomplete) {
     console.log(chalk.yellow(`\nHit max-pages limit (${maxPages}). Use --continue to crawl more.`));
-    // TODO: Save pending URLs when crawler supports returning them
   }
 
   // Chunk
   const chunkSpinner = ora("Chunking content...").start();
-  const chunks = chunkDocuments(documents);
+  const chunks = chunkDocuments(documents, crawlOptions);
+  applyVersion(chunks, versionLabel);
   chunkSpinner.succeed(`Created ${chunks.length} chunks`);
 
   // Embed
   const embedSpinner = ora("Generating embeddings...").start();
-  await generateEmbeddings(chunks);
-  embedSpinner.succeed("Embeddings generated");
+  // New chunks go into the same vector index, so they're embedded with the server's model
+  try {
+    const embeddingStats = await generateEmbeddings(chunks, getEmbeddingConfig(db), {
+      ...embedOptions,
+      onProgress: (progress) => {
+        embedSpinner.text = `Generating embeddings... ${formatEmbeddingProgress(progress)}`;
+      },
+    });
+    embedSpinner.succeed(`Embeddings generated (${formatCacheHits(embeddingStats)})`);
+  } catch (error) {
+    embedSpinner.fail("Failed to generate embeddings");
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    db.close();
+    process.exit(1);
+  }
 
-  // Add to database
+  // Add to database. The source is only created or cleared now, so a failed
+  // crawl or embedding run leaves it as it was.
   const dbSpinner = ora("Adding to database...").start();
 
+  const sourceId = existingSource && !options.force ? existingSource.id : getOrCreateSource(db, url);
+
+  if (isUpdate) {
+    deleteChunksForSource(db, sourceId);
+    deletePagesForSource(db, sourceId);
+  }
+
+  // Remember the crawler and its settings so `update` re-crawls this source the same way
+  if (!crawlState) {
+    saveSourceCrawlOptions(db, sourceId, crawlMethod, crawlOptions);
+  }
+  setSourceVersion(db, sourceId, versionLabel);
+
   for (const chunk of chunks) {
     insertChunkWithEmbedding(db, chunk, sourceId);
   }
+  savePages(db, sourceId, documents);
 
-  // Update source metadata
+  // Update source metadata - a resumed crawl adds to what's already there
   const pageCount = new Set(chunks.map((c) => c.url)).size;
-  updateSourceMetadata(db, sourceId, pageCount, chunks.length);
+  if (crawlState && existingSource) {
+    updateSourceMetadata(
+      db,
+      sourceId,
+      existingSource.page_count + pageCount,
+      existingSource.chunk_count + chunks.length
+    );
+  } else {
+    updateSourceMetadata(db, sourceId, pageCount, chunks.length);
+  }
 
   // If we deleted chunks (update), rebuild the vector table
   if (isUpdate) {
     rebuildVectorTable(db);
   }
 
-  // Clear crawl state if crawl completed successfully
-  if (!maxPagesReached) {
+  // Save the unvisited frontier for --continue, or clear it if the crawl finished
+  if (crawlIncomplete) {
+    saveCrawlState(db, sourceId, {
+      pending: crawlResult.pending,
+      visited: crawlResult.visited,
+      maxPagesReached: !interrupted,
+    });
+  } else {
     clearCrawlState(db, sourceId);
   }
 
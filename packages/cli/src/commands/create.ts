@@ -2,12 +2,20 @@ import ora from "ora";
 import chalk from "chalk";
 import fs from "fs";
 import path from "path";
-import { crawlUrl } from "../crawl.js";
-import { crawlWithFirecrawl } from "../firecrawl.js";
-import { crawlWithPlaywright } from "../playwright.js";
-import { chunkDocuments } from "../chunk.js";
-import { generateEmbeddings } from "../embed.js";
+import { CrawlResult, validateCrawlOptions } from "../crawl.js";
+import { chooseCrawlMethod, getCrawler, isSiteCrawl, withCrawlDefaults } from "../crawlers.js";
+import { applySitePreset, detectSite } from "../generators.js";
+import { isLocalSource, toFileUrl } from "../local.js";
+import { chunkDocuments, validateChunkOptions } from "../chunk.js";
+import { generateEmbeddings, formatCacheHits, formatEmbeddingProgress, validateEmbedOptions, EmbedOptions } from "../embed.js";
 import { generateMcpServer } from "../generate.js";
+import { EmbeddingConfig, resolveEmbeddingConfig } from "../embedders.js";
+import { applyVersion } from "../version.js";
+import { validateAuthOptions } from "../auth.js";
+import { validateExtractOptions } from "../extract.js";
+import { SourceCrawlOptions, CrawlState } from "../db-utils.js";
+import { printCrawlSummary } from "../summary.js";
+import { printCrawlPreview } from "../preview.js";
 import { getServersDir } from "../utils.js";
 
 interface CreateOptions {
@@ -16,78 +24,209 @@ interface CreateOptions {
   maxPages: string;
   firecrawl?: boolean;
   playwright?: boolean;
+  sitemapOnly?: boolean;
+  llmsTxt: boolean;
+  ignoreRobots?: boolean;
+  concurrency: string;
+  rateLimit: string;
+  include?: string[];
+  exclude?: string[];
+  pathScope: boolean;
+  baseUrl?: string;
+  openapi?: boolean;
+  docVersion?: string;
+  header?: string[];
+  cookieFile?: string;
+  storageState?: string;
+  waitFor?: string;
+  click?: string[];
+  hashRoutes?: boolean;
+  blockResources?: boolean;
+  contentSelector?: string[];
+  removeSelector?: string[];
+  chunkSize: string;
+  chunkOverlap: string;
+  embeddingProvider?: string;
+  embeddingModel?: string;
+  embeddingBaseUrl?: string;
+  embeddingConcurrency?: string;
+  embeddingTpm?: string;
+  detect: boolean;
+  dryRun?: boolean;
 }
 
 export async function createServer(url: string, options: CreateOptions): Promise<void> {
-  const { name, depth, maxPages } = options;
+  const { name } = options;
 
-  // Check for OpenAI API key
-  if (!process.env.OPENAI_API_KEY) {
+  let embedding: EmbeddingConfig;
+  try {
+    embedding = resolveEmbeddingConfig(options);
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${(error as Error).message}\n`));
+    process.exit(1);
+  }
+
+  // Check for OpenAI API key - a dry run never embeds anything
+  if (!options.dryRun && embedding.provider === "openai" && !process.env.OPENAI_API_KEY) {
     console.error(chalk.red("\nError: OPENAI_API_KEY environment variable is required."));
-    console.error(chalk.gray("Get your API key at: https://platform.openai.com/api-keys\n"));
+    console.error(chalk.gray("Get your API key at: https://platform.openai.com/api-keys"));
+    console.error(chalk.gray("Or embed without OpenAI: --embedding-provider local\n"));
     process.exit(1);
   }
 
   const serverDir = path.join(getServersDir(), name);
 
+  // Local directories are stored as file:// URLs so `update` can find them again
+  if (isLocalSource(url)) {
+    url = toFileUrl(url);
+  }
+
   // Check if server already exists
-  if (fs.existsSync(serverDir)) {
+  if (!options.dryRun && fs.existsSync(serverDir)) {
     console.error(chalk.red(`\nError: Server "${name}" already exists.`));
     console.error(chalk.gray(`Run 'docslurp remove ${name}' to delete it first.\n`));
     process.exit(1);
   }
 
-  console.log(chalk.bold(`\nCreating MCP server: ${name}`));
+  console.log(chalk.bold(options.dryRun ? `\nPreviewing crawl for: ${name}` : `\nCreating MCP server: ${name}`));
   console.log(chalk.gray(`Source: ${url}\n`));
 
   // Step 1: Crawl
-  const crawlMethod = options.firecrawl ? "firecrawl" : options.playwright ? "playwright" : "default";
-  const crawlSpinner = ora(
-    crawlMethod === "firecrawl"
-      ? "Crawling with Firecrawl..."
-      : crawlMethod === "playwright"
-      ? "Crawling with Playwright (this may take a while)..."
-      : "Crawling documentation..."
-  ).start();
-  let documents;
+  let crawlOptions: SourceCrawlOptions = {
+    maxDepth: parseInt(options.depth, 10),
+    maxPages: parseInt(options.maxPages, 10),
+    sitemapOnly: options.sitemapOnly,
+    ignoreRobots: options.ignoreRobots,
+    concurrency: parseInt(options.concurrency, 10),
+    rateLimit: parseFloat(options.rateLimit),
+    include: options.include,
+    exclude: options.exclude,
+    pathScope: options.pathScope,
+    baseUrl: options.baseUrl,
+    llmsTxt: options.llmsTxt,
+    headers: options.header,
+    cookieFile: options.cookieFile && path.resolve(options.cookieFile),
+    storageState: options.storageState && path.resolve(options.storageState),
+    waitFor: options.waitFor,
+    clickSelectors: options.click,
+    hashRoutes: options.hashRoutes,
+    blockResources: options.blockResources,
+    contentSelectors: options.contentSelector,
+    removeSelectors: options.removeSelector,
+    chunkSize: parseInt(options.chunkSize, 10),
+    chunkOverlap: parseInt(options.chunkOverlap, 10),
+  };
+
+  const embedOptions: EmbedOptions = {
+    concurrency: options.embeddingConcurrency ? parseInt(options.embeddingConcurrency, 10) : undefined,
+    tokensPerMinute: options.embeddingTpm ? parseInt(options.embeddingTpm, 10) : undefined,
+  };
+
+  // Catch bad crawl limits, literal secrets, unset env vars, missing files, bad selectors and chunk sizes before crawling
   try {
-    if (crawlMethod === "firecrawl") {
-      documents = await crawlWithFirecrawl(url, {
-        maxPages: parseInt(maxPages),
-      });
-    } else if (crawlMethod === "playwright") {
-      documents = await crawlWithPlaywright(url, {
-        maxDepth: parseInt(depth),
-        maxPages: parseInt(maxPages),
-      });
+    validateCrawlOptions(crawlOptions);
+    validateAuthOptions(crawlOptions);
+    validateExtractOptions(crawlOptions);
+    validateChunkOptions(crawlOptions);
+    validateEmbedOptions(embedOptions);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${(error as Error).message}\n`));
+    process.exit(1);
+  }
+  let crawlMethod = chooseCrawlMethod(url, options);
+
+  // Recognize the docs generator and use its selectors, sitemap and version/locale excludes
+  if (options.detect && isSiteCrawl(crawlMethod)) {
+    const detectSpinner = ora("Detecting docs generator...").start();
+    const site = await detectSite(url, crawlOptions);
+    crawlOptions = applySitePreset(crawlOptions, site);
+    if (site.generator) {
+      detectSpinner.succeed(`Detected ${site.generator} (pass --no-detect to skip its preset)`);
     } else {
-      documents = await crawlUrl(url, {
-        maxDepth: parseInt(depth),
-        maxPages: parseInt(maxPages),
-      });
+      detectSpinner.stop();
+    }
+    if (site.needsRendering && crawlMethod === "default") {
+      crawlMethod = "playwright";
+      console.log(chalk.gray("The start page only renders with JavaScript, so crawling with Playwright"));
+    }
+  }
+
+  const crawler = getCrawler(crawlMethod);
+  const crawlSpinner = ora(crawler.label).start();
+
+  // Ctrl-C stops the crawl but still builds the server from what we have.
+  // A second Ctrl-C exits as usual.
+  const abortController = new AbortController();
+  const onInterrupt = () => {
+    crawlSpinner.text = "Stopping crawl after in-flight pages...";
+    abortController.abort();
+  };
+  process.once("SIGINT", onInterrupt);
+  const signal = abortController.signal;
+
+  let crawlResult: CrawlResult;
+  try {
+    crawlResult = await crawler.crawl(url, { ...withCrawlDefaults(crawlOptions), signal });
+    crawlSpinner.succeed(`Found ${crawlResult.documents.length} pages`);
+    if (!options.dryRun) {
+      printCrawlSummary(crawlResult);
     }
-    crawlSpinner.succeed(`Found ${documents.length} pages`);
   } catch (error) {
     crawlSpinner.fail("Failed to crawl documentation");
     console.error(chalk.red(error instanceof Error ? error.message : String(error)));
     process.exit(1);
   }
+  process.off("SIGINT", onInterrupt);
+
+  const { documents } = crawlResult;
+
+  // Dry run: show what would be indexed and stop before OpenAI or the server directory
+  if (options.dryRun) {
+    const chunks = chunkDocuments(documents, crawlOptions);
+    printCrawlPreview(crawlResult, chunks);
+    console.log(chalk.gray(`\nDry run - nothing was embedded or written. Drop --dry-run to create the server.\n`));
+    return;
+  }
 
   if (documents.length === 0) {
     console.error(chalk.red("\nNo pages found. Check the URL and try again.\n"));
     process.exit(1);
   }
 
+  // Keep the unvisited frontier so `add --continue` can crawl the rest
+  let crawlState: CrawlState | null = null;
+  if (crawlResult.pending.length > 0) {
+    crawlState = {
+      pending: crawlResult.pending,
+      visited: crawlResult.visited,
+      maxPagesReached: !signal.aborted,
+    };
+    console.log(
+      chalk.yellow(
+        signal.aborted
+          ? "\nCrawl interrupted. Building the server from the pages crawled so far."
+          : `\nHit max-pages limit (${crawlOptions.maxPages}).`
+      )
+    );
+    console.log(chalk.gray(`Run 'docslurp add ${url} --to ${name} --continue' to crawl the rest.\n`));
+  }
+
   // Step 2: Chunk
   const chunkSpinner = ora("Chunking content...").start();
-  const chunks = chunkDocuments(documents);
+  const chunks = chunkDocuments(documents, crawlOptions);
+  applyVersion(chunks, options.docVersion);
   chunkSpinner.succeed(`Created ${chunks.length} chunks`);
 
   // Step 3: Embed
-  const embedSpinner = ora("Generating embeddings (this may take a minute)...").start();
+  const embedSpinner = ora("Generating embeddings...").start();
   try {
-    await generateEmbeddings(chunks);
-    embedSpinner.succeed("Embeddings generated");
+    const embeddingStats = await generateEmbeddings(chunks, embedding, {
+      ...embedOptions,
+      onProgress: (progress) => {
+        embedSpinner.text = `Generating embeddings... ${formatEmbeddingProgress(progress)}`;
+      },
+    });
+    embedSpinner.succeed(`Embeddings generated (${formatCacheHits(embeddingStats)})`);
   } catch (error) {
     embedSpinner.fail("Failed to generate embeddings");
     console.error(chalk.red(error instanceof Error ? error.message : String(error)));
@@ -97,7 +236,7 @@ export async function createServer(url: string, options: CreateOptions): Promise
   // Step 4: Generate MCP server
   const generateSpinner = ora("Generating MCP server...").start();
   try {
-    await generateMcpServer(name, url, chunks);
+    await generateMcpServer(name, url, chunks, documents, crawlMethod, crawlOptions, crawlState, options.docVersion ?? null, embedding);
     generateSpinner.succeed("MCP server created");
   } catch (error) {
     generateSpinner.fail("Failed to generate MCP server");
@@ -3,6 +3,7 @@ import path from "path";
 import chalk from "chalk";
 import { getServersDir } from "../utils.js";
 import { openDatabase, migrateDatabase, getSources } from "../db-utils.js";
+import { detectVersion } from "../version.js";
 
 /**
  * List all sources for an MCP server.
@@ -44,9 +45,12 @@ export async function listSources(serverName: string): Promise<void> {
     const urlDisplay = source.url.length > 45 ? source.url.substring(0, 42) + "..." : source.url.padEnd(45);
     const addedDate = new Date(source.added_at).toLocaleDateString();
     const hasResume = source.crawl_state ? chalk.yellow(" (resumable)") : "";
+    const version = source.version ?? detectVersion(source.url);
+    const versionLabel = version ? chalk.cyan(` ${version}`) : "";
+    const method = source.crawl_method && source.crawl_method !== "default" ? chalk.gray(` [${source.crawl_method}]`) : "";
 
     console.log(
-      `${String(source.id).padStart(2)}  ${urlDisplay}  ${String(source.page_count).padStart(5)}  ${String(source.chunk_count).padStart(6)}  ${addedDate}${hasResume}`
+      `${String(source.id).padStart(2)}  ${urlDisplay}  ${String(source.page_count).padStart(5)}  ${String(source.chunk_count).padStart(6)}  ${addedDate}${versionLabel}${method}${hasResume}`
     );
   }
 
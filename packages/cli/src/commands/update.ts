@@ -2,11 +2,15 @@ import fs from "fs";
 import path from "path";
 import ora from "ora";
 import chalk from "chalk";
-import { crawlUrl } from "../crawl.js";
-import { crawlWithFirecrawl } from "../firecrawl.js";
-import { crawlWithPlaywright } from "../playwright.js";
-import { chunkDocuments } from "../chunk.js";
-import { generateEmbeddings } from "../embed.js";
+import { CrawlResult, validateCrawlOptions } from "../crawl.js";
+import { chooseCrawlMethod, getCrawler, withCrawlDefaults } from "../crawlers.js";
+import { isLocalSource, toFileUrl } from "../local.js";
+import { chunkDocuments, validateChunkOptions, DEFAULT_CHUNK_SIZE, DEFAULT_CHUNK_OVERLAP } from "../chunk.js";
+import { generateEmbeddings, formatCacheHits, formatEmbeddingProgress, validateEmbedOptions, EmbedOptions } from "../embed.js";
+import { applyVersion } from "../version.js";
+import { AuthOptions, validateAuthOptions } from "../auth.js";
+import { validateExtractOptions } from "../extract.js";
+import { printCrawlSummary } from "../summary.js";
 import { getServersDir } from "../utils.js";
 import {
   openDatabase,
@@ -14,11 +18,24 @@ import {
   getSources,
   findSourceByUrl,
   deleteChunksForSource,
+  deleteChunksForPage,
+  deletePage,
+  deletePagesForSource,
+  getPages,
+  savePages,
+  hashDocument,
+  countSourceContent,
   rebuildVectorTable,
   insertChunkWithEmbedding,
   updateSourceMetadata,
   clearCrawlState,
+  getSourceCrawlOptions,
+  saveSourceCrawlOptions,
+  getEmbeddingConfig,
+  setSourceVersion,
+  SourceCrawlOptions,
   Source,
+  StoredPage,
 } from "../db-utils.js";
 
 interface UpdateOptions {
@@ -26,7 +43,30 @@ interface UpdateOptions {
   maxPages?: string;
   firecrawl?: boolean;
   playwright?: boolean;
+  sitemapOnly?: boolean;
+  llmsTxt?: boolean;
+  ignoreRobots?: boolean;
+  concurrency?: string;
+  rateLimit?: string;
+  include?: string[];
+  exclude?: string[];
+  pathScope?: boolean;
   url?: string;
+  full?: boolean;
+  docVersion?: string;
+  header?: string[];
+  cookieFile?: string;
+  storageState?: string;
+  waitFor?: string;
+  click?: string[];
+  hashRoutes?: boolean;
+  blockResources?: boolean;
+  contentSelector?: string[];
+  removeSelector?: string[];
+  chunkSize?: string;
+  chunkOverlap?: string;
+  embeddingConcurrency?: string;
+  embeddingTpm?: string;
 }
 
 /**
@@ -44,8 +84,33 @@ export async function updateServer(serverName: string, options: UpdateOptions):
     process.exit(1);
   }
 
-  const maxDepth = parseInt(options.depth || "3", 10);
-  const maxPages = parseInt(options.maxPages || "100", 10);
+  // Limits given to update replace the stored ones; the rest keep what each source was added with
+  const maxDepth = options.depth ? parseInt(options.depth, 10) : undefined;
+  const maxPages = options.maxPages ? parseInt(options.maxPages, 10) : undefined;
+  const concurrency = options.concurrency ? parseInt(options.concurrency, 10) : undefined;
+  const rateLimit = options.rateLimit ? parseFloat(options.rateLimit) : undefined;
+  const chunkSize = options.chunkSize ? parseInt(options.chunkSize, 10) : undefined;
+  const chunkOverlap = options.chunkOverlap ? parseInt(options.chunkOverlap, 10) : undefined;
+  const embedOptions: EmbedOptions = {
+    concurrency: options.embeddingConcurrency ? parseInt(options.embeddingConcurrency, 10) : undefined,
+    tokensPerMinute: options.embeddingTpm ? parseInt(options.embeddingTpm, 10) : undefined,
+  };
+
+  // New credentials replace the stored ones for every updated source
+  const authOverrides: AuthOptions = {
+    headers: options.header,
+    cookieFile: options.cookieFile && path.resolve(options.cookieFile),
+    storageState: options.storageState && path.resolve(options.storageState),
+  };
+  try {
+    validateCrawlOptions({ concurrency, rateLimit });
+    validateAuthOptions(authOverrides);
+    validateExtractOptions({ contentSelectors: options.contentSelector, removeSelectors: options.removeSelector });
+    validateEmbedOptions(embedOptions);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${(error as Error).message}`));
+    process.exit(1);
+  }
 
   // Open database and run migrations
   const db = openDatabase(dbPath);
@@ -54,12 +119,14 @@ export async function updateServer(serverName: string, options: UpdateOptions):
   // Migrate legacy config sources to database
   const legacySources = config.sources || (config.sourceUrl ? [{ url: config.sourceUrl, addedAt: config.createdAt }] : []);
   migrateDatabase(db, legacySources);
+  const embedding = getEmbeddingConfig(db);
 
   // Determine which sources to update
   let sourcesToUpdate: Source[];
 
   if (options.url) {
-    const source = findSourceByUrl(db, options.url);
+    const sourceUrl = isLocalSource(options.url) ? toFileUrl(options.url) : options.url;
+    const source = findSourceByUrl(db, sourceUrl);
     if (!source) {
       console.error(chalk.red(`Source "${options.url}" not found.`));
       console.error(chalk.gray(`Run: docslurp sources ${serverName} to see available sources.`));
@@ -79,70 +146,162 @@ export async function updateServer(serverName: string, options: UpdateOptions):
 
   console.log(chalk.blue(`\nUpdating ${sourcesToUpdate.length} source(s) for ${serverName}\n`));
 
-  const crawlMethod = options.firecrawl ? "firecrawl" : options.playwright ? "playwright" : "default";
   let totalPages = 0;
   let totalChunks = 0;
 
   for (const source of sourcesToUpdate) {
     console.log(chalk.cyan(`\n→ ${source.url}`));
 
-    // Delete old chunks for this source
-    const deletedCount = deleteChunksForSource(db, source.id);
-    console.log(chalk.gray(`  Removed ${deletedCount} old chunks`));
+    // Reuse the source's stored crawler and settings; flags passed to update override them
+    const crawlMethod = chooseCrawlMethod(source.url, options, source.crawl_method);
+    const storedOptions = getSourceCrawlOptions(source);
+    const crawlOptions: SourceCrawlOptions = {
+      maxDepth: maxDepth ?? storedOptions.maxDepth,
+      maxPages: maxPages ?? storedOptions.maxPages,
+      sitemapOnly: options.sitemapOnly || storedOptions.sitemapOnly,
+      ignoreRobots: options.ignoreRobots || storedOptions.ignoreRobots,
+      concurrency: concurrency ?? storedOptions.concurrency,
+      rateLimit: rateLimit ?? storedOptions.rateLimit,
+      include: options.include ?? storedOptions.include,
+      exclude: options.exclude ?? storedOptions.exclude,
+      pathScope: options.pathScope === false ? false : storedOptions.pathScope,
+      baseUrl: storedOptions.baseUrl,
+      llmsTxt: options.llmsTxt === false ? false : storedOptions.llmsTxt,
+      headers: authOverrides.headers ?? storedOptions.headers,
+      cookieFile: authOverrides.cookieFile ?? storedOptions.cookieFile,
+      storageState: authOverrides.storageState ?? storedOptions.storageState,
+      waitFor: options.waitFor ?? storedOptions.waitFor,
+      clickSelectors: options.click ?? storedOptions.clickSelectors,
+      hashRoutes: options.hashRoutes || storedOptions.hashRoutes,
+      blockResources: options.blockResources || storedOptions.blockResources,
+      contentSelectors: options.contentSelector ?? storedOptions.contentSelectors,
+      removeSelectors: options.removeSelector ?? storedOptions.removeSelectors,
+      chunkSize: chunkSize ?? storedOptions.chunkSize,
+      chunkOverlap: chunkOverlap ?? storedOptions.chunkOverlap,
+    };
+    try {
+      validateChunkOptions(crawlOptions);
+    } catch (error) {
+      console.log(chalk.red(`  ${(error as Error).message}, skipping`));
+      continue;
+    }
+    saveSourceCrawlOptions(db, source.id, crawlMethod, crawlOptions);
+
+    // Chunks of unchanged pages were cut to the old sizes, so new sizes re-chunk every page
+    const rechunk =
+      (crawlOptions.chunkSize ?? DEFAULT_CHUNK_SIZE) !== (storedOptions.chunkSize ?? DEFAULT_CHUNK_SIZE) ||
+      (crawlOptions.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP) !== (storedOptions.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP);
+    if (rechunk && !options.full) {
+      console.log(chalk.gray("  Chunk size changed, re-embedding every page"));
+    }
+
+    const versionLabel = options.docVersion ?? source.version;
+    if (options.docVersion) {
+      setSourceVersion(db, source.id, options.docVersion);
+    }
+
+    // Pages recorded by the last crawl. Sources from before page tracking have none,
+    // and --full or new chunk sizes ignore them, so those are replaced wholesale.
+    const storedPages = options.full || rechunk ? new Map<string, StoredPage>() : getPages(db, source.id);
+    const incremental = storedPages.size > 0;
 
     // Crawl
-    const crawlSpinner = ora(
-      crawlMethod === "firecrawl"
-        ? "  Crawling with Firecrawl..."
-        : crawlMethod === "playwright"
-        ? "  Crawling with Playwright..."
-        : "  Crawling pages..."
-    ).start();
-
-    let documents;
+    const crawler = getCrawler(crawlMethod);
+    const crawlSpinner = ora(`  ${crawler.label}`).start();
+
+    let crawlResult: CrawlResult;
     try {
-      if (crawlMethod === "firecrawl") {
-        documents = await crawlWithFirecrawl(source.url, { maxPages });
-      } else if (crawlMethod === "playwright") {
-        documents = await crawlWithPlaywright(source.url, { maxDepth, maxPages });
-      } else {
-        documents = await crawlUrl(source.url, { maxDepth, maxPages });
-      }
-      crawlSpinner.succeed(`  Crawled ${documents.length} pages`);
+      crawlResult = await crawler.crawl(source.url, {
+        ...withCrawlDefaults(crawlOptions),
+        knownPages: storedPages,
+      });
+      const unchangedCount = crawlResult.unchanged?.length ?? 0;
+      crawlSpinner.succeed(
+        `  Crawled ${crawlResult.documents.length + unchangedCount} pages` +
+          (unchangedCount > 0 ? ` (${unchangedCount} not modified)` : "")
+      );
+      printCrawlSummary(crawlResult, "  ");
     } catch (error) {
       crawlSpinner.fail(`  Failed to crawl: ${(error as Error).message}`);
       continue; // Skip this source but continue with others
     }
 
-    if (documents.length === 0) {
+    const { documents, unchanged = [], failed = [] } = crawlResult;
+    if (documents.length === 0 && unchanged.length === 0) {
       console.log(chalk.yellow("  No content found, skipping"));
       continue;
     }
 
+    // Only new pages and pages whose content changed get re-chunked and re-embedded
+    const changedDocuments = documents.filter(
+      (doc) => storedPages.get(doc.url)?.contentHash !== hashDocument(doc)
+    );
+    const newCount = changedDocuments.filter((doc) => !storedPages.has(doc.url)).length;
+    const sameCount = documents.length - changedDocuments.length + unchanged.length;
+
+    // Pages that are gone from a finished crawl were removed from the site.
+    // Pages that failed to load or weren't reached because of max-pages are kept.
+    const seen = new Set([...documents.map((doc) => doc.url), ...unchanged, ...failed]);
+    const crawlComplete = crawlResult.pending.length === 0;
+    const removedUrls = incremental && crawlComplete
+      ? [...storedPages.keys()].filter((url) => !seen.has(url))
+      : [];
+
     // Chunk
     const chunkSpinner = ora("  Chunking content...").start();
-    const chunks = chunkDocuments(documents);
+    const chunks = chunkDocuments(changedDocuments, crawlOptions);
+    applyVersion(chunks, versionLabel);
     chunkSpinner.succeed(`  Created ${chunks.length} chunks`);
 
     // Embed
-    const embedSpinner = ora("  Generating embeddings...").start();
-    await generateEmbeddings(chunks);
-    embedSpinner.succeed("  Embeddings generated");
+    if (chunks.length > 0) {
+      const embedSpinner = ora("  Generating embeddings...").start();
+      const embeddingStats = await generateEmbeddings(chunks, embedding, {
+        ...embedOptions,
+        onProgress: (progress) => {
+          embedSpinner.text = `  Generating embeddings... ${formatEmbeddingProgress(progress)}`;
+        },
+      });
+      embedSpinner.succeed(`  Embeddings generated (${formatCacheHits(embeddingStats)})`);
+    }
+
+    // Swap in the new chunks only once the embeddings are ready
+    if (incremental) {
+      for (const doc of changedDocuments) {
+        deleteChunksForPage(db, source.id, doc.url);
+      }
+      for (const url of removedUrls) {
+        deletePage(db, source.id, url);
+      }
+    } else {
+      const deletedCount = deleteChunksForSource(db, source.id);
+      deletePagesForSource(db, source.id);
+      console.log(chalk.gray(`  Removed ${deletedCount} old chunks`));
+    }
 
-    // Insert new chunks
     for (const chunk of chunks) {
       insertChunkWithEmbedding(db, chunk, source.id);
     }
+    // Refresh validators and links for unchanged pages too
+    savePages(db, source.id, documents);
 
     // Update source metadata
-    const pageCount = new Set(chunks.map((c) => c.url)).size;
-    updateSourceMetadata(db, source.id, pageCount, chunks.length);
+    const { pageCount, chunkCount } = countSourceContent(db, source.id);
+    updateSourceMetadata(db, source.id, pageCount, chunkCount);
     clearCrawlState(db, source.id);
 
     totalPages += pageCount;
-    totalChunks += chunks.length;
+    totalChunks += chunkCount;
 
-    console.log(chalk.green(`  ✓ Updated with ${pageCount} pages, ${chunks.length} chunks`));
+    if (incremental) {
+      console.log(
+        chalk.green(
+          `  ✓ ${newCount} new, ${changedDocuments.length - newCount} changed, ` +
+            `${sameCount} unchanged, ${removedUrls.length} removed`
+        )
+      );
+    }
+    console.log(chalk.green(`  ✓ Updated with ${pageCount} pages, ${chunkCount} chunks`));
   }
 
   // Rebuild vector table once after all updates
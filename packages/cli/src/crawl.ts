@@ -1,130 +1,400 @@
 import * as cheerio from "cheerio";
+import { discoverSitemapUrls } from "./sitemap.js";
+import { discoverLlmsTxt } from "./llms-txt.js";
+import { fetchRobotsRules } from "./robots.js";
+import { fetchWithRetry, HostThrottle } from "./http.js";
+import { createUrlFilter, UrlFilterOptions } from "./url-filter.js";
+import { AuthOptions, createHeadersFor } from "./auth.js";
+import { extractContent, extractTitle, ExtractOptions } from "./extract.js";
+import { dedupeDocuments, normalizeUrl, resolveCanonicalUrl } from "./canonical.js";
 
 export interface CrawledDocument {
   url: string;
   title: string;
   content: string;
+  // HTTP validators and outgoing links, kept so `update` can send conditional requests
+  etag?: string;
+  lastModified?: string;
+  links?: string[];
 }
 
-interface CrawlOptions {
+export interface SkippedUrl {
+  url: string;
+  reason: string;
+}
+
+/**
+ * A URL waiting to be crawled, with its link distance from the start URL.
+ */
+export interface FrontierEntry {
+  url: string;
+  depth: number;
+}
+
+export interface CrawlResult {
+  documents: CrawledDocument[];
+  skipped: SkippedUrl[];
+  // URLs not crawled yet because the crawl hit maxPages or was aborted
+  pending: FrontierEntry[];
+  // Every URL seen so far, so a resumed crawl doesn't fetch them again
+  visited: string[];
+  // The llms.txt or llms-full.txt file the crawl was based on, if any
+  llmsTxt?: string;
+  // Pages that answered 304 Not Modified to a conditional request
+  unchanged?: string[];
+  // Pages that failed to load for a reason other than 404/410, so they may still exist
+  failed?: string[];
+  // Pages dropped because another URL had the same page or the same content
+  duplicates?: SkippedUrl[];
+}
+
+/**
+ * What a previous crawl recorded about a page, used to send conditional requests.
+ */
+export interface KnownPage {
+  etag?: string;
+  lastModified?: string;
+  links: string[];
+}
+
+/**
+ * Where a previous crawl stopped, as saved by saveCrawlState.
+ */
+export interface ResumeState {
+  pending: FrontierEntry[];
+  visited: string[];
+}
+
+interface CrawlOptions extends UrlFilterOptions, AuthOptions, ExtractOptions {
   maxDepth: number;
   maxPages: number;
+  sitemapOnly?: boolean;
+  sitemaps?: string[]; // checked on top of robots.txt and the usual locations
+  llmsTxt?: boolean;
+  ignoreRobots?: boolean;
+  concurrency?: number;
+  rateLimit?: number; // requests per second, per host
+  resume?: ResumeState;
+  knownPages?: Map<string, KnownPage>;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_RATE_LIMIT = 5;
+
+/**
+ * Checks that concurrency is a whole number of requests and the rate limit a
+ * positive rate, so a typo can't stop the crawl from fetching anything or turn
+ * off throttling.
+ */
+export function validateCrawlOptions(options: Pick<CrawlOptions, "concurrency" | "rateLimit">): void {
+  const { concurrency, rateLimit } = options;
+  if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency > 0)) {
+    throw new Error("Concurrency must be a whole number above 0");
+  }
+  if (rateLimit !== undefined && !(Number.isFinite(rateLimit) && rateLimit > 0)) {
+    throw new Error("Rate limit must be a number of requests per second above 0");
+  }
 }
 
 /**
  * Crawls a documentation URL and extracts content from linked pages.
  * Uses cheerio for HTML parsing - works well for static docs sites.
  * For JS-heavy sites, consider using Firecrawl API instead.
+ *
+ * Pages are crawled breadth-first, one depth level at a time, with up to
+ * `concurrency` requests in flight and each host throttled to `rateLimit`
+ * requests per second. Breadth-first order means maxPages covers the shallow,
+ * most important pages of every section before going deeper into any one of them.
+ *
+ * The site's sitemaps seed the crawl alongside the link walk, so sections that
+ * aren't linked from the start page still get picked up. With sitemapOnly,
+ * only the pages listed in the sitemaps are fetched.
+ *
+ * Sites that publish an llms.txt skip the link walk altogether: the pages in
+ * llms-full.txt are used as-is, or the pages listed in llms.txt are fetched
+ * without following their links. Set llmsTxt: false to crawl the site instead.
+ *
+ * Pages are indexed under their `<link rel="canonical">` URL when it's in scope,
+ * and duplicates (URL aliases, identical content) are dropped at the end.
+ *
+ * Only follows links under the start URL's path unless include/exclude
+ * patterns say otherwise (see createUrlFilter).
+ *
+ * Honors robots.txt Disallow rules and Crawl-delay unless ignoreRobots is set.
+ *
+ * Sends the auth headers and matching cookies from AuthOptions with every
+ * request to the site, including sitemap and llms.txt fetches. Sitemaps on
+ * other origins are fetched without them.
+ *
+ * Stops early when maxPages is reached or the signal is aborted, returning the
+ * unvisited frontier as `pending`. Passing that back in as `resume` picks the
+ * crawl up where it left off.
+ *
+ * Pages in knownPages are fetched with If-None-Match/If-Modified-Since. Those that
+ * answer 304 are listed in `unchanged` and their stored links are followed instead.
  */
 export async function crawlUrl(
   startUrl: string,
   options: CrawlOptions
-): Promise<CrawledDocument[]> {
-  const { maxDepth, maxPages } = options;
-  const visited = new Set<string>();
+): Promise<CrawlResult> {
+  const { maxDepth, maxPages, sitemapOnly, llmsTxt, ignoreRobots, resume, knownPages, signal } = options;
+  const concurrency = options.concurrency || DEFAULT_CONCURRENCY;
+  const rateLimit = options.rateLimit || DEFAULT_RATE_LIMIT;
+
+  const visited = new Set<string>(resume?.visited);
   const documents: CrawledDocument[] = [];
+  const skipped: SkippedUrl[] = [];
+  const unchanged: string[] = [];
+  const failed: string[] = [];
   const baseUrl = new URL(startUrl);
+  const robots = await fetchRobotsRules(baseUrl.origin);
+  const urlFilter = createUrlFilter(startUrl, options);
+  const headersFor = createHeadersFor(options);
 
-  async function crawlPage(url: string, depth: number): Promise<void> {
-    // Stop if we've hit our limits
-    if (depth > maxDepth || documents.length >= maxPages || visited.has(url)) {
-      return;
-    }
+  // Crawl-delay only ever slows us down further than the configured rate
+  const crawlDelayMs = ignoreRobots ? 0 : (robots.crawlDelay || 0) * 1000;
+  const throttle = new HostThrottle(Math.max(1000 / rateLimit, crawlDelayMs));
+
+  // Pages fetched after in-flight requests filled the quota - they go back on the frontier
+  const overflow: string[] = [];
+
+  // Unchanged pages count towards maxPages just like fetched ones
+  function pageCount(): number {
+    return documents.length + unchanged.length;
+  }
 
-    visited.add(url);
+  function isStopped(): boolean {
+    return pageCount() >= maxPages || !!signal?.aborted;
+  }
+
+  /**
+   * Fetches one page, stores its content and returns the links found on it.
+   */
+  async function crawlPage(url: string): Promise<string[]> {
+    if (!ignoreRobots && !robots.isAllowed(url)) {
+      skipped.push({ url, reason: "disallowed by robots.txt" });
+      return [];
+    }
 
     try {
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": "docslurp/1.0 (https://github.com/jamesagudo/docslurp)",
-        },
-      });
+      const known = knownPages?.get(url);
+      const headers = headersFor(url);
+      if (known?.etag) headers["If-None-Match"] = known.etag;
+      if (known?.lastModified) headers["If-Modified-Since"] = known.lastModified;
+
+      const response = await fetchWithRetry(url, { throttle, headers });
+
+      if (response.status === 304 && known) {
+        unchanged.push(url);
+        return known.links;
+      }
 
       if (!response.ok) {
-        return;
+        if (response.status !== 404 && response.status !== 410) {
+          failed.push(url);
+        }
+        return [];
       }
 
+      const validators = {
+        etag: response.headers.get("etag") || undefined,
+        lastModified: response.headers.get("last-modified") || undefined,
+      };
+      const contentType = response.headers.get("content-type") || "";
       const html = await response.text();
-      const $ = cheerio.load(html);
 
-      // Remove script, style, nav, footer, header elements
-      $("script, style, nav, footer, header, aside, .sidebar, .navigation").remove();
-
-      // Get the page title
-      const title = $("title").text().trim() ||
-                    $("h1").first().text().trim() ||
-                    url;
-
-      // Extract main content - try common content containers
-      let content = "";
-      const mainSelectors = [
-        "main",
-        "article",
-        "[role='main']",
-        ".content",
-        ".main-content",
-        ".doc-content",
-        ".markdown-body",
-        "#content",
-      ];
-
-      for (const selector of mainSelectors) {
-        const element = $(selector);
-        if (element.length > 0) {
-          content = element.text().trim();
-          break;
-        }
+      // Markdown versions of pages, as linked from llms.txt, are used as-is
+      const isMarkdown = /text\/(x-)?markdown|text\/plain/.test(contentType) ||
+        (/\.mdx?$/i.test(new URL(url).pathname) && !/^\s*</.test(html));
+      if (isMarkdown) {
+        const title = html.match(/^#\s+(.+)$/m)?.[1].trim() || url;
+        storeDocument({ url, title, content: html.trim(), ...validators, links: [] });
+        return [];
       }
 
-      // Fallback to body if no main content found
-      if (!content) {
-        content = $("body").text().trim();
+      const $ = cheerio.load(html);
+
+      // Index the page under its canonical URL so aliases collapse into one page
+      const canonicalUrl = resolveCanonicalUrl($("link[rel='canonical']").attr("href"), url);
+      const pageUrl = canonicalUrl !== url && !urlFilter(canonicalUrl) ? canonicalUrl : url;
+      if (pageUrl !== url) {
+        visited.add(normalizeUrl(pageUrl));
       }
 
-      // Clean up whitespace
-      content = content.replace(/\s+/g, " ").trim();
+      // Find links to crawl next, before extraction strips the navigation they're usually in
+      const links: string[] = [];
+      $("a[href]").each((_, element) => {
+        const href = $(element).attr("href");
+        if (!href) return;
+
+        try {
+          // Resolve against the final URL in case the page was redirected
+          const linkUrl = new URL(href, response.url || url);
+          linkUrl.hash = "";
+
+          // Only crawl same-origin links
+          if (linkUrl.origin === baseUrl.origin) {
+            // Skip external links and non-doc pages
+            if (!linkUrl.pathname.match(/\.(png|jpg|gif|svg|pdf|zip)$/i)) {
+              links.push(linkUrl.href);
+            }
+          }
+        } catch {
+          // Invalid URL, skip
+        }
+      });
+
+      const title = extractTitle($) || url;
+      const content = extractContent($, options);
+
+      storeDocument({ url: pageUrl, title, content, ...validators, links });
+      return links;
+    } catch (error) {
+      // Skip pages that fail to load
+      console.error(`Failed to crawl ${url}: ${error}`);
+      failed.push(url);
+      return [];
+    }
+  }
 
-      // Only add if we have meaningful content
-      if (content.length > 100) {
-        documents.push({ url, title, content });
+  function storeDocument(document: CrawledDocument): void {
+    // Only add if we have meaningful content
+    if (document.content.length > 100) {
+      if (pageCount() < maxPages) {
+        documents.push(document);
+      } else {
+        overflow.push(document.url);
       }
+    }
+  }
 
-      // Find links to crawl next
-      if (depth < maxDepth && documents.length < maxPages) {
-        const links: string[] = [];
+  /**
+   * Marks a URL as seen (in its normalized form) and checks it against the include/exclude/scope filter.
+   * Returns true the first time an in-scope URL is seen.
+   */
+  function shouldEnqueue(url: string): boolean {
+    const key = normalizeUrl(url);
+    if (visited.has(key)) return false;
+    visited.add(key);
 
-        $("a[href]").each((_, element) => {
-          const href = $(element).attr("href");
-          if (!href) return;
+    const reason = urlFilter(url);
+    if (reason) {
+      skipped.push({ url, reason });
+      return false;
+    }
+    return true;
+  }
 
-          try {
-            const linkUrl = new URL(href, url);
+  /**
+   * Crawls one depth level with a pool of workers.
+   * Returns the next level's URLs and any URLs of this level left over when the crawl stopped.
+   */
+  async function crawlLevel(
+    urls: string[],
+    followLinks: boolean
+  ): Promise<{ nextLevel: string[]; remaining: string[] }> {
+    const nextLevel: string[] = [];
+    let index = 0;
 
-            // Only crawl same-origin links
-            if (linkUrl.origin === baseUrl.origin && !visited.has(linkUrl.href)) {
-              // Skip anchors, external links, and non-doc pages
-              if (!linkUrl.href.includes("#") &&
-                  !linkUrl.pathname.match(/\.(png|jpg|gif|svg|pdf|zip)$/i)) {
-                links.push(linkUrl.href);
-              }
-            }
-          } catch {
-            // Invalid URL, skip
+    async function worker(): Promise<void> {
+      while (index < urls.length && !isStopped()) {
+        const url = urls[index++];
+        const links = await crawlPage(url);
+
+        if (!followLinks) continue;
+        for (const link of links) {
+          if (shouldEnqueue(link)) {
+            nextLevel.push(link);
           }
-        });
+        }
+      }
+    }
+
+    const workers = Array.from({ length: Math.min(concurrency, urls.length) }, worker);
+    await Promise.all(workers);
+    return { nextLevel, remaining: [...overflow.splice(0), ...urls.slice(index)] };
+  }
+
+  let frontier: FrontierEntry[];
+  let llmsTxtUrl: string | undefined;
+
+  // Pages in llms.txt outside the crawl's scope are dropped; if none are left, crawl as usual
+  const llms = resume || sitemapOnly || llmsTxt === false ? null : await discoverLlmsTxt(startUrl, headersFor(startUrl));
+  const llmsDocuments = (llms?.documents || []).filter(
+    (document) => document.url.startsWith(`${llms!.url}#`) || !urlFilter(document.url)
+  );
+  const llmsLinks = (llms?.links || []).filter(
+    (url) => new URL(url).origin === baseUrl.origin && !urlFilter(url)
+  );
+
+  if (resume) {
+    frontier = [...resume.pending];
+  } else if (llmsDocuments.length > 0) {
+    // llms-full.txt already has every page's content - nothing left to fetch.
+    // Pages past maxPages are pending, so an update doesn't count them as removed.
+    const { documents: used, duplicates } = dedupeDocuments(llmsDocuments.slice(0, maxPages));
+    return {
+      documents: used,
+      skipped,
+      pending: llmsDocuments.slice(maxPages).map((document) => ({ url: document.url, depth: maxDepth })),
+      visited: used.map((document) => normalizeUrl(document.url)),
+      llmsTxt: llms!.url,
+      duplicates,
+    };
+  } else if (llmsLinks.length > 0) {
+    // Crawl just the pages llms.txt lists, without following their links
+    llmsTxtUrl = llms!.url;
+    frontier = llmsLinks.filter(shouldEnqueue).map((url) => ({ url, depth: maxDepth }));
+  } else {
+    const sitemapUrls = await discoverSitemapUrls(startUrl, robots, headersFor, options.sitemaps);
+
+    if (sitemapOnly) {
+      if (sitemapUrls.length === 0) {
+        throw new Error(`No sitemap found for ${baseUrl.origin}`);
+      }
+      frontier = sitemapUrls.filter(shouldEnqueue).map((url) => ({ url, depth: 0 }));
+    } else {
+      visited.add(normalizeUrl(startUrl));
+      frontier = [{ url: startUrl, depth: 0 }];
 
-        // Crawl found links
-        for (const link of links.slice(0, 20)) {
-          if (documents.length >= maxPages) break;
-          await crawlPage(link, depth + 1);
+      // Sitemap pages the link walk doesn't reach count as one hop from the start page
+      if (maxDepth > 0) {
+        for (const url of sitemapUrls) {
+          if (shouldEnqueue(url)) {
+            frontier.push({ url, depth: 1 });
+          }
         }
       }
-    } catch (error) {
-      // Skip pages that fail to load
-      console.error(`Failed to crawl ${url}: ${error}`);
     }
   }
 
-  await crawlPage(startUrl, 0);
-  return documents;
+  while (frontier.length > 0 && !isStopped()) {
+    // Crawl the shallowest level first; a resumed frontier can span two levels
+    const depth = Math.min(...frontier.map((entry) => entry.depth));
+    const level = frontier.filter((entry) => entry.depth === depth).map((entry) => entry.url);
+    const rest = frontier.filter((entry) => entry.depth !== depth);
+
+    const followLinks = !sitemapOnly && depth < maxDepth;
+    const { nextLevel, remaining } = await crawlLevel(level, followLinks);
+
+    frontier = [
+      ...remaining.map((url) => ({ url, depth })),
+      ...rest,
+      ...nextLevel.map((url) => ({ url, depth: depth + 1 })),
+    ];
+  }
+
+  const { documents: uniqueDocuments, duplicates } = dedupeDocuments(documents);
+
+  return {
+    documents: uniqueDocuments,
+    skipped,
+    pending: frontier,
+    visited: [...visited],
+    llmsTxt: llmsTxtUrl,
+    unchanged,
+    failed,
+    duplicates,
+  };
 }
@@ -0,0 +1,107 @@
+import { crawlUrl, CrawlResult, KnownPage, ResumeState } from "./crawl.js";
+import { crawlWithPlaywright } from "./playwright.js";
+import { crawlWithFirecrawl } from "./firecrawl.js";
+import { isLocalSource, readLocalDocs } from "./local.js";
+import { loadOpenApiSpec } from "./openapi.js";
+import { SourceCrawlOptions } from "./db-utils.js";
+
+export type CrawlMethod = "default" | "playwright" | "firecrawl" | "local" | "openapi";
+
+/**
+ * Everything a crawl can be given. Each backend reads the options it supports
+ * and ignores the rest.
+ */
+export interface CrawlerOptions extends SourceCrawlOptions {
+  maxDepth: number;
+  maxPages: number;
+  resume?: ResumeState;
+  knownPages?: Map<string, KnownPage>;
+  signal?: AbortSignal;
+}
+
+export interface Crawler {
+  // Spinner text while the crawl runs
+  label: string;
+  crawl(location: string, options: CrawlerOptions): Promise<CrawlResult>;
+}
+
+/**
+ * The crawler flags of create, add and update.
+ */
+export interface CrawlMethodFlags {
+  firecrawl?: boolean;
+  playwright?: boolean;
+  openapi?: boolean;
+}
+
+export const DEFAULT_MAX_DEPTH = 3;
+export const DEFAULT_MAX_PAGES = 100;
+
+const crawlers: Record<CrawlMethod, Crawler> = {
+  default: {
+    label: "Crawling pages...",
+    crawl: crawlUrl,
+  },
+  playwright: {
+    label: "Crawling with Playwright (this may take a while)...",
+    crawl: crawlWithPlaywright,
+  },
+  firecrawl: {
+    label: "Crawling with Firecrawl...",
+    crawl: crawlWithFirecrawl,
+  },
+  local: {
+    label: "Reading local files...",
+    crawl: readLocalDocs,
+  },
+  openapi: {
+    label: "Reading OpenAPI spec...",
+    crawl: loadOpenApiSpec,
+  },
+};
+
+/**
+ * Gets the backend for a crawl method, as given on the command line or stored on a source.
+ */
+export function getCrawler(method: CrawlMethod): Crawler {
+  const crawler = crawlers[method];
+  if (!crawler) {
+    throw new Error(`Unknown crawl method "${method}". Expected one of: ${Object.keys(crawlers).join(", ")}`);
+  }
+  return crawler;
+}
+
+/**
+ * Picks the crawl method for a source from the command-line flags, falling back
+ * to the method it was last crawled with.
+ * Specs and local directories are always re-read as such, whatever crawler was requested.
+ */
+export function chooseCrawlMethod(
+  location: string,
+  flags: CrawlMethodFlags,
+  stored: CrawlMethod | null = null
+): CrawlMethod {
+  if (flags.openapi || stored === "openapi") return "openapi";
+  if (isLocalSource(location)) return "local";
+  if (flags.firecrawl) return "firecrawl";
+  if (flags.playwright) return "playwright";
+  return stored ?? "default";
+}
+
+/**
+ * Checks whether a crawl method fetches a website, as opposed to reading files or a spec.
+ */
+export function isSiteCrawl(method: CrawlMethod): boolean {
+  return method !== "local" && method !== "openapi";
+}
+
+/**
+ * Fills in the crawl limits a source's stored options may leave out.
+ */
+export function withCrawlDefaults(options: SourceCrawlOptions): CrawlerOptions {
+  return {
+    ...options,
+    maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    maxPages: options.maxPages ?? DEFAULT_MAX_PAGES,
+  };
+}
@@ -1,5 +1,14 @@
 import Database from "better-sqlite3";
 import * as sqliteVec from "sqlite-vec";
+import { CrawledDocument, KnownPage, ResumeState } from "./crawl.js";
+import { hashContent } from "./utils.js";
+import { normalizeUrl } from "./canonical.js";
+import { AuthOptions } from "./auth.js";
+import { CrawlMethod } from "./crawlers.js";
+import { RenderOptions } from "./playwright.js";
+import { ExtractOptions } from "./extract.js";
+import { ChunkType, ChunkOptions } from "./chunk.js";
+import { DEFAULT_EMBEDDING, EmbeddingConfig, EmbeddingProvider, getModelCacheDir } from "./embedders.js";
 
 export interface Source {
   id: number;
@@ -8,6 +17,43 @@ export interface Source {
   page_count: number;
   chunk_count: number;
   crawl_state: string | null;
+  crawl_options: string | null;
+  crawl_method: CrawlMethod | null;
+  version: string | null;
+}
+
+/**
+ * A page as recorded by the last crawl of its source.
+ */
+export interface StoredPage extends KnownPage {
+  contentHash: string;
+}
+
+/**
+ * Where an unfinished crawl stopped, saved so `add --continue` can resume it.
+ */
+export interface CrawlState extends ResumeState {
+  maxPagesReached: boolean;
+}
+
+/**
+ * Crawl settings remembered per source so `update` re-crawls the same way.
+ * Auth settings hold env var references and file paths, never the secrets themselves.
+ */
+export interface SourceCrawlOptions extends AuthOptions, RenderOptions, ExtractOptions, ChunkOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  sitemapOnly?: boolean;
+  ignoreRobots?: boolean;
+  concurrency?: number;
+  rateLimit?: number;
+  include?: string[];
+  exclude?: string[];
+  pathScope?: boolean;
+  baseUrl?: string;
+  llmsTxt?: boolean;
+  sitemaps?: string[];
+  generator?: string; // docs generator the preset came from, e.g. "Docusaurus"
 }
 
 /**
@@ -44,6 +90,37 @@ function columnExists(
   return result.some((col) => col.name === columnName);
 }
 
+/**
+ * Per-page change tracking for incremental updates.
+ */
+export const PAGES_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS pages (
+    source_id INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    etag TEXT,
+    last_modified TEXT,
+    links TEXT,
+    crawled_at TEXT NOT NULL,
+    PRIMARY KEY (source_id, url)
+  )
+`;
+
+// Server-wide settings as key/value pairs, e.g. the embedding model
+export const METADATA_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS metadata (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  )
+`;
+
+/**
+ * SQL for the vector index, sized to the embedding model's vectors.
+ */
+export function vectorTableSql(dimension: number): string {
+  return `CREATE VIRTUAL TABLE IF NOT EXISTS vec_chunks USING vec0(embedding float[${dimension}])`;
+}
+
 /**
  * Migrates the database schema to support sources and embedding storage.
  * Safe to call multiple times - only applies missing changes.
@@ -61,7 +138,10 @@ export function migrateDatabase(
         added_at TEXT NOT NULL,
         page_count INTEGER DEFAULT 0,
         chunk_count INTEGER DEFAULT 0,
-        crawl_state TEXT
+        crawl_state TEXT,
+        crawl_options TEXT,
+        crawl_method TEXT,
+        version TEXT
       )
     `);
 
@@ -76,6 +156,35 @@ export function migrateDatabase(
     }
   }
 
+  // Add crawl_options column to sources if it doesn't exist
+  if (!columnExists(db, "sources", "crawl_options")) {
+    db.exec("ALTER TABLE sources ADD COLUMN crawl_options TEXT");
+  }
+
+  // Add crawl_method column to sources if it doesn't exist.
+  // Specs used to be flagged in crawl_options; other web sources get the default crawler.
+  if (!columnExists(db, "sources", "crawl_method")) {
+    db.exec("ALTER TABLE sources ADD COLUMN crawl_method TEXT");
+    db.exec(`UPDATE sources SET crawl_method = 'openapi' WHERE crawl_options LIKE '%"openapi":true%'`);
+    db.exec("UPDATE sources SET crawl_method = 'local' WHERE crawl_method IS NULL AND url LIKE 'file://%'");
+  }
+
+  // Add version column to sources if it doesn't exist
+  if (!columnExists(db, "sources", "version")) {
+    db.exec("ALTER TABLE sources ADD COLUMN version TEXT");
+  }
+
+  // Create pages table if it doesn't exist
+  if (!tableExists(db, "pages")) {
+    db.exec(PAGES_TABLE_SQL);
+  }
+
+  // Create metadata table if it doesn't exist. Servers from before it were all
+  // embedded with the default model, which getEmbeddingConfig falls back to.
+  if (!tableExists(db, "metadata")) {
+    db.exec(METADATA_TABLE_SQL);
+  }
+
   // Add source_id column to chunks if it doesn't exist
   if (!columnExists(db, "chunks", "source_id")) {
     db.exec("ALTER TABLE chunks ADD COLUMN source_id INTEGER DEFAULT 0");
@@ -85,6 +194,26 @@ export function migrateDatabase(
   if (!columnExists(db, "chunks", "embedding_blob")) {
     db.exec("ALTER TABLE chunks ADD COLUMN embedding_blob BLOB");
   }
+
+  // Add version column to chunks if it doesn't exist
+  if (!columnExists(db, "chunks", "version")) {
+    db.exec("ALTER TABLE chunks ADD COLUMN version TEXT");
+  }
+
+  // Add breadcrumb column to chunks if it doesn't exist
+  if (!columnExists(db, "chunks", "breadcrumb")) {
+    db.exec("ALTER TABLE chunks ADD COLUMN breadcrumb TEXT");
+  }
+
+  // Add chunk_type column to chunks if it doesn't exist
+  if (!columnExists(db, "chunks", "chunk_type")) {
+    db.exec("ALTER TABLE chunks ADD COLUMN chunk_type TEXT");
+  }
+
+  // Add anchor column to chunks if it doesn't exist
+  if (!columnExists(db, "chunks", "anchor")) {
+    db.exec("ALTER TABLE chunks ADD COLUMN anchor TEXT");
+  }
 }
 
 /**
@@ -105,28 +234,6 @@ export function findSourceByUrl(
   return null;
 }
 
-/**
- * Normalizes a URL for comparison.
- * Removes trailing slashes, lowercases, strips common query params.
- */
-export function normalizeUrl(url: string): string {
-  try {
-    const parsed = new URL(url);
-    // Lowercase the hostname
-    parsed.hostname = parsed.hostname.toLowerCase();
-    // Remove trailing slash from pathname
-    parsed.pathname = parsed.pathname.replace(/\/+$/, "") || "/";
-    // Remove common tracking params
-    parsed.searchParams.delete("utm_source");
-    parsed.searchParams.delete("utm_medium");
-    parsed.searchParams.delete("utm_campaign");
-    return parsed.toString();
-  } catch {
-    // If URL parsing fails, just do basic normalization
-    return url.toLowerCase().replace(/\/+$/, "");
-  }
-}
-
 /**
  * Gets all sources from the database.
  */
@@ -169,13 +276,98 @@ export function updateSourceMetadata(
   ).run(pageCount, chunkCount, sourceId);
 }
 
+/**
+ * Sets the version label of a source, relabeling its existing chunks.
+ * Null means chunk versions are detected from their page URLs.
+ */
+export function setSourceVersion(
+  db: Database.Database,
+  sourceId: number,
+  version: string | null
+): void {
+  db.prepare("UPDATE sources SET version = ? WHERE id = ?").run(version, sourceId);
+  if (version) {
+    db.prepare("UPDATE chunks SET version = ? WHERE source_id = ?").run(version, sourceId);
+  }
+}
+
+/**
+ * Gets the crawl settings stored for a source.
+ */
+export function getSourceCrawlOptions(source: Source): SourceCrawlOptions {
+  if (!source.crawl_options) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(source.crawl_options);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Stores the crawl method and settings for a source.
+ */
+export function saveSourceCrawlOptions(
+  db: Database.Database,
+  sourceId: number,
+  method: CrawlMethod,
+  options: SourceCrawlOptions
+): void {
+  db.prepare("UPDATE sources SET crawl_method = ?, crawl_options = ? WHERE id = ?").run(
+    method,
+    JSON.stringify(options),
+    sourceId
+  );
+}
+
+/**
+ * Gets the embedding model the server's chunks were embedded with.
+ */
+export function getEmbeddingConfig(db: Database.Database): EmbeddingConfig {
+  const rows = tableExists(db, "metadata")
+    ? (db.prepare("SELECT key, value FROM metadata WHERE key LIKE 'embedding_%'").all() as Array<{
+        key: string;
+        value: string;
+      }>)
+    : [];
+  const metadata = new Map(rows.map((row) => [row.key, row.value]));
+
+  if (!metadata.has("embedding_provider")) {
+    return { ...DEFAULT_EMBEDDING };
+  }
+  return {
+    provider: metadata.get("embedding_provider") as EmbeddingProvider,
+    model: metadata.get("embedding_model")!,
+    dimension: parseInt(metadata.get("embedding_dimension")!, 10),
+    baseUrl: metadata.get("embedding_base_url"),
+  };
+}
+
+/**
+ * Stores the embedding model, once its dimension is known.
+ */
+export function saveEmbeddingConfig(db: Database.Database, config: EmbeddingConfig): void {
+  const upsert = db.prepare("INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)");
+  upsert.run("embedding_provider", config.provider);
+  upsert.run("embedding_model", config.model);
+  upsert.run("embedding_dimension", String(config.dimension));
+  if (config.baseUrl) {
+    upsert.run("embedding_base_url", config.baseUrl);
+  }
+  if (config.provider === "local") {
+    upsert.run("model_cache_dir", getModelCacheDir());
+  }
+}
+
 /**
  * Saves crawl state for resuming later.
  */
 export function saveCrawlState(
   db: Database.Database,
   sourceId: number,
-  state: { pendingUrls: string[]; maxPagesReached: boolean }
+  state: CrawlState
 ): void {
   db.prepare("UPDATE sources SET crawl_state = ? WHERE id = ?").run(
     JSON.stringify(state),
@@ -201,7 +393,7 @@ export function clearCrawlState(
 export function getCrawlState(
   db: Database.Database,
   sourceId: number
-): { pendingUrls: string[]; maxPagesReached: boolean } | null {
+): CrawlState | null {
   const source = db
     .prepare("SELECT crawl_state FROM sources WHERE id = ?")
     .get(sourceId) as { crawl_state: string | null } | undefined;
@@ -242,7 +434,7 @@ export function rebuildVectorTable(db: Database.Database): void {
 
   // Drop and recreate vec_chunks
   db.exec("DROP TABLE IF EXISTS vec_chunks");
-  db.exec("CREATE VIRTUAL TABLE vec_chunks USING vec0(embedding float[1536])");
+  db.exec(vectorTableSql(getEmbeddingConfig(db).dimension!));
 
   // Re-insert embeddings
   for (const chunk of chunks) {
@@ -265,6 +457,10 @@ export function insertChunkWithEmbedding(
     url: string;
     title: string;
     chunkIndex: number;
+    type: ChunkType;
+    breadcrumb?: string;
+    anchor?: string;
+    version?: string;
     embedding?: number[];
   },
   sourceId: number
@@ -278,7 +474,7 @@ export function insertChunkWithEmbedding(
 
   const result = db
     .prepare(
-      "INSERT INTO chunks (content, url, title, chunk_index, source_id, embedding_blob) VALUES (?, ?, ?, ?, ?, ?)"
+      "INSERT INTO chunks (content, url, title, chunk_index, source_id, embedding_blob, version, breadcrumb, chunk_type, anchor) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
     )
     .run(
       chunk.content,
@@ -286,7 +482,11 @@ export function insertChunkWithEmbedding(
       chunk.title,
       chunk.chunkIndex,
       sourceId,
-      embeddingBlob
+      embeddingBlob,
+      chunk.version ?? null,
+      chunk.breadcrumb ?? null,
+      chunk.type,
+      chunk.anchor ?? null
     );
 
   const chunkId = result.lastInsertRowid as number;
@@ -301,3 +501,117 @@ export function insertChunkWithEmbedding(
 
   return chunkId;
 }
+
+/**
+ * Hashes a crawled page's title and content.
+ */
+export function hashDocument(document: CrawledDocument): string {
+  return hashContent(`${document.title}\n${document.content}`);
+}
+
+/**
+ * Gets the pages recorded for a source, keyed by URL.
+ */
+export function getPages(
+  db: Database.Database,
+  sourceId: number
+): Map<string, StoredPage> {
+  const rows = db
+    .prepare("SELECT url, content_hash, etag, last_modified, links FROM pages WHERE source_id = ?")
+    .all(sourceId) as Array<{
+    url: string;
+    content_hash: string;
+    etag: string | null;
+    last_modified: string | null;
+    links: string | null;
+  }>;
+
+  const pages = new Map<string, StoredPage>();
+  for (const row of rows) {
+    pages.set(row.url, {
+      contentHash: row.content_hash,
+      etag: row.etag ?? undefined,
+      lastModified: row.last_modified ?? undefined,
+      links: row.links ? JSON.parse(row.links) : [],
+    });
+  }
+  return pages;
+}
+
+/**
+ * Records crawled pages for a source, replacing what was stored for the same URLs.
+ */
+export function savePages(
+  db: Database.Database,
+  sourceId: number,
+  documents: CrawledDocument[]
+): void {
+  const upsert = db.prepare(
+    `INSERT OR REPLACE INTO pages (source_id, url, content_hash, etag, last_modified, links, crawled_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  const crawledAt = new Date().toISOString();
+
+  db.transaction(() => {
+    for (const document of documents) {
+      upsert.run(
+        sourceId,
+        document.url,
+        hashDocument(document),
+        document.etag ?? null,
+        document.lastModified ?? null,
+        document.links ? JSON.stringify(document.links) : null,
+        crawledAt
+      );
+    }
+  })();
+}
+
+/**
+ * Deletes a page and its chunks. Returns the number of chunks deleted.
+ */
+export function deletePage(
+  db: Database.Database,
+  sourceId: number,
+  url: string
+): number {
+  db.prepare("DELETE FROM pages WHERE source_id = ? AND url = ?").run(sourceId, url);
+  return deleteChunksForPage(db, sourceId, url);
+}
+
+/**
+ * Deletes the chunks of one page of a source.
+ */
+export function deleteChunksForPage(
+  db: Database.Database,
+  sourceId: number,
+  url: string
+): number {
+  const result = db
+    .prepare("DELETE FROM chunks WHERE source_id = ? AND url = ?")
+    .run(sourceId, url);
+  return result.changes;
+}
+
+/**
+ * Deletes every page recorded for a source.
+ */
+export function deletePagesForSource(
+  db: Database.Database,
+  sourceId: number
+): void {
+  db.prepare("DELETE FROM pages WHERE source_id = ?").run(sourceId);
+}
+
+/**
+ * Counts a source's pages and chunks as currently stored.
+ */
+export function countSourceContent(
+  db: Database.Database,
+  sourceId: number
+): { pageCount: number; chunkCount: number } {
+  const row = db
+    .prepare("SELECT COUNT(DISTINCT url) AS pageCount, COUNT(*) AS chunkCount FROM chunks WHERE source_id = ?")
+    .get(sourceId) as { pageCount: number; chunkCount: number };
+  return row;
+}
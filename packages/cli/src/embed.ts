@@ -1,76 +1,281 @@
-import OpenAI from "openai";
-import { DocumentChunk } from "./chunk.js";
+import Database from "better-sqlite3";
+import { DocumentChunk, getEmbeddingText } from "./chunk.js";
+import { createEmbedder, Embedder, EmbeddingConfig } from "./embedders.js";
+import { openEmbeddingCache, getCachedEmbeddings, cacheEmbeddings } from "./embedding-cache.js";
+import { countTokens } from "./tokens.js";
+import { sleep, hashContent } from "./utils.js";
 
-const BATCH_SIZE = 25;
 const MAX_RETRIES = 5;
 const BASE_DELAY_MS = 1000;
+const DEFAULT_CONCURRENCY = 4;
+const MINUTE_MS = 60_000;
+
+export interface EmbeddingStats {
+  // Chunks whose embeddings came from the cache
+  cached: number;
+  total: number;
+}
 
 /**
- * Sleep for a given number of milliseconds.
+ * How hard to push the embedding API.
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((r) => setTimeout(r, ms));
+export interface EmbedOptions {
+  // Batches in flight at once
+  concurrency?: number;
+  // Tokens per minute to stay under, e.g. your OpenAI tier's limit
+  tokensPerMinute?: number;
+  onProgress?: (progress: EmbeddingProgress) => void;
+}
+
+export interface EmbeddingProgress {
+  done: number;
+  total: number;
+  // Tokens sent to the API so far
+  tokens: number;
+  // Estimated time left, once a batch has finished
+  etaMs?: number;
 }
 
 /**
- * Generates embeddings for document chunks using OpenAI's API.
- * Processes in batches with retry logic for rate limits.
+ * Spaces out batches so the tokens sent in any minute stay under a budget.
+ * Safe to share between concurrent workers - each caller reserves its tokens
+ * before sending.
  */
-export async function generateEmbeddings(chunks: DocumentChunk[]): Promise<void> {
-  const openai = new OpenAI();
+class TokenBudget {
+  private sent: Array<{ at: number; tokens: number }> = [];
 
-  for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
-    const batch = chunks.slice(i, i + BATCH_SIZE);
-    const texts = batch.map((c) => c.content);
+  constructor(private tokensPerMinute: number) {}
 
-    let retries = 0;
-    let success = false;
+  async reserve(tokens: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.sent = this.sent.filter((entry) => entry.at > now - MINUTE_MS);
+      const used = this.sent.reduce((sum, entry) => sum + entry.tokens, 0);
 
-    while (!success && retries < MAX_RETRIES) {
-      try {
-        const response = await openai.embeddings.create({
-          model: "text-embedding-3-small",
-          input: texts,
-        });
+      // A batch bigger than the whole budget goes out alone
+      if (used + tokens <= this.tokensPerMinute || this.sent.length === 0) {
+        this.sent.push({ at: now, tokens });
+        return;
+      }
+      await sleep(this.sent[0].at + MINUTE_MS - now);
+    }
+  }
+}
 
-        for (let j = 0; j < batch.length; j++) {
-          batch[j].embedding = response.data[j].embedding;
-        }
-        success = true;
-      } catch (error: unknown) {
-        const isRateLimit =
-          error instanceof Error &&
-          "status" in error &&
-          (error as { status: number }).status === 429;
-
-        if (isRateLimit) {
-          retries++;
-          // Exponential backoff: 1s, 2s, 4s, 8s, 16s
-          const delay = BASE_DELAY_MS * Math.pow(2, retries - 1);
-
-          // Check for retry-after header
-          let retryAfterMs = delay;
-          if (error && typeof error === "object" && "headers" in error) {
-            const headers = (error as { headers?: Record<string, string> }).headers;
-            if (headers?.["retry-after-ms"]) {
-              retryAfterMs = Math.max(parseInt(headers["retry-after-ms"], 10) + 100, delay);
-            }
-          }
+/**
+ * Generates embeddings for document chunks with the configured provider.
+ * Text embedded before with the same model, by any server, comes from the
+ * shared cache. The rest is packed into batches as large as the API takes
+ * (by token count), sent `concurrency` at a time within the tokens-per-minute
+ * budget, retried on rate limits, and cached.
+ *
+ * Fills in the config's dimension from the first embeddings when it isn't
+ * known yet, and throws if the model returns vectors of another length.
+ */
+export async function generateEmbeddings(
+  chunks: DocumentChunk[],
+  config: EmbeddingConfig,
+  options: EmbedOptions = {}
+): Promise<EmbeddingStats> {
+  const cache = openEmbeddingCache();
+  try {
+    return await embedWithCache(chunks, config, options, cache);
+  } finally {
+    cache?.close();
+  }
+}
+
+/**
+ * Describes how many embeddings came from the cache, for spinner output.
+ */
+export function formatCacheHits(stats: EmbeddingStats): string {
+  if (stats.total === 0) return "nothing to embed";
+  const percent = Math.round((stats.cached / stats.total) * 100);
+  return `${stats.cached} of ${stats.total} from cache (${percent}%)`;
+}
+
+/**
+ * Describes embedding progress for spinner output, e.g.
+ * "1,200/20,000 chunks, 480,000 tokens, ~3m left".
+ */
+export function formatEmbeddingProgress(progress: EmbeddingProgress): string {
+  let text =
+    `${progress.done.toLocaleString()}/${progress.total.toLocaleString()} chunks, ` +
+    `${progress.tokens.toLocaleString()} tokens`;
+  if (progress.etaMs !== undefined) {
+    const seconds = Math.ceil(progress.etaMs / 1000);
+    text += seconds < 60 ? `, ~${seconds}s left` : `, ~${Math.ceil(seconds / 60)}m left`;
+  }
+  return text;
+}
+
+/**
+ * Checks the concurrency and tokens-per-minute flags.
+ */
+export function validateEmbedOptions(options: EmbedOptions): void {
+  if (options.concurrency !== undefined && !(Number.isInteger(options.concurrency) && options.concurrency > 0)) {
+    throw new Error("Embedding concurrency must be a whole number above 0");
+  }
+  if (options.tokensPerMinute !== undefined && !(Number.isInteger(options.tokensPerMinute) && options.tokensPerMinute > 0)) {
+    throw new Error("Embedding tokens per minute must be a whole number above 0");
+  }
+}
+
+async function embedWithCache(
+  chunks: DocumentChunk[],
+  config: EmbeddingConfig,
+  options: EmbedOptions,
+  cache: Database.Database | null
+): Promise<EmbeddingStats> {
+  // Providers can serve the same model name, so the cache keys on both, plus
+  // the endpoint for OpenAI-compatible servers that may each host a different model
+  const cacheModel =
+    config.provider === "openai-compatible"
+      ? `${config.provider}:${config.baseUrl ?? ""}:${config.model}`
+      : `${config.provider}:${config.model}`;
+  const hashes = new Map(chunks.map((chunk) => [chunk, hashContent(getEmbeddingText(chunk))]));
+  const cached = cache ? getCachedEmbeddings(cache, cacheModel, [...hashes.values()]) : new Map<string, number[]>();
+
+  const missing: DocumentChunk[] = [];
+  for (const chunk of chunks) {
+    const embedding = cached.get(hashes.get(chunk)!);
+    if (embedding && (config.dimension ?? embedding.length) === embedding.length) {
+      config.dimension ??= embedding.length;
+      chunk.embedding = embedding;
+    } else {
+      missing.push(chunk);
+    }
+  }
 
-          if (retries < MAX_RETRIES) {
-            await sleep(retryAfterMs);
-          } else {
-            throw new Error(`Rate limit exceeded after ${MAX_RETRIES} retries`);
+  const embedder = createEmbedder(config);
+  const batches = packBatches(missing, embedder);
+  const totalTokens = batches.reduce((sum, batch) => sum + batch.tokens, 0);
+  const budget = options.tokensPerMinute ? new TokenBudget(options.tokensPerMinute) : null;
+  const concurrency = embedder.local ? 1 : options.concurrency ?? DEFAULT_CONCURRENCY;
+
+  const progress: EmbeddingProgress = { done: chunks.length - missing.length, total: chunks.length, tokens: 0 };
+  const startedAt = Date.now();
+  options.onProgress?.(progress);
+
+  let index = 0;
+  let failed = false;
+
+  async function worker(): Promise<void> {
+    while (index < batches.length && !failed) {
+      const batch = batches[index++];
+      await budget?.reserve(batch.tokens);
+
+      try {
+        const embeddings = await embedBatch(embedder, batch.chunks.map(getEmbeddingText));
+
+        config.dimension ??= embeddings[0].length;
+        for (let j = 0; j < batch.chunks.length; j++) {
+          if (embeddings[j].length !== config.dimension) {
+            throw new Error(
+              `${config.model} returned ${embeddings[j].length}-dimensional embeddings, but this index uses ${config.dimension}`
+            );
           }
-        } else {
-          throw error;
+          batch.chunks[j].embedding = embeddings[j];
         }
+      } catch (error) {
+        // Stop the other workers from starting new batches
+        failed = true;
+        throw error;
+      }
+
+      if (cache) {
+        cacheEmbeddings(
+          cache,
+          cacheModel,
+          batch.chunks.map((chunk) => ({ hash: hashes.get(chunk)!, embedding: chunk.embedding! }))
+        );
       }
+
+      progress.done += batch.chunks.length;
+      progress.tokens += batch.tokens;
+      const elapsed = Date.now() - startedAt;
+      progress.etaMs = (elapsed / progress.tokens) * (totalTokens - progress.tokens);
+      options.onProgress?.(progress);
     }
+  }
+
+  // On a failure, let the batches already in flight finish and get cached before
+  // rethrowing; the cache is closed once this returns
+  const workers = Array.from({ length: Math.min(concurrency, batches.length) }, worker);
+  const failure = (await Promise.allSettled(workers)).find(
+    (result): result is PromiseRejectedResult => result.status === "rejected"
+  );
+  if (failure) {
+    throw failure.reason;
+  }
+
+  return { cached: chunks.length - missing.length, total: chunks.length };
+}
+
+/**
+ * Packs chunks into batches that stay under the provider's per-request token
+ * and input limits.
+ */
+function packBatches(chunks: DocumentChunk[], embedder: Embedder): Array<{ chunks: DocumentChunk[]; tokens: number }> {
+  const batches: Array<{ chunks: DocumentChunk[]; tokens: number }> = [];
+  let current: DocumentChunk[] = [];
+  let currentTokens = 0;
 
-    // Delay between batches to stay under rate limits
-    if (i + BATCH_SIZE < chunks.length) {
-      await sleep(500);
+  for (const chunk of chunks) {
+    const tokens = countTokens(getEmbeddingText(chunk));
+    if (
+      current.length > 0 &&
+      (currentTokens + tokens > embedder.maxBatchTokens || current.length >= embedder.maxBatchSize)
+    ) {
+      batches.push({ chunks: current, tokens: currentTokens });
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(chunk);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) {
+    batches.push({ chunks: current, tokens: currentTokens });
+  }
+  return batches;
+}
+
+/**
+ * Embeds one batch, backing off exponentially on rate limits and waiting at
+ * least as long as the API's retry-after-ms header asks.
+ */
+async function embedBatch(embedder: Embedder, texts: string[]): Promise<number[][]> {
+  for (let retries = 0; ; ) {
+    try {
+      return await embedder.embed(texts);
+    } catch (error: unknown) {
+      const isRateLimit =
+        error instanceof Error &&
+        "status" in error &&
+        (error as { status: number }).status === 429;
+
+      if (!isRateLimit) {
+        throw error;
+      }
+
+      retries++;
+      if (retries >= MAX_RETRIES) {
+        throw new Error(`Rate limit exceeded after ${MAX_RETRIES} retries`);
+      }
+
+      // Exponential backoff: 1s, 2s, 4s, 8s
+      const delay = BASE_DELAY_MS * Math.pow(2, retries - 1);
+
+      // Check for retry-after header
+      let retryAfterMs = delay;
+      if ("headers" in error) {
+        const headers = (error as { headers?: Record<string, string> }).headers;
+        if (headers?.["retry-after-ms"]) {
+          retryAfterMs = Math.max(parseInt(headers["retry-after-ms"], 10) + 100, delay);
+        }
+      }
+      await sleep(retryAfterMs);
     }
   }
 }
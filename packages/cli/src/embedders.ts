@@ -0,0 +1,181 @@
+import OpenAI from "openai";
+import fs from "fs";
+import path from "path";
+import { getDataDir } from "./utils.js";
+
+export type EmbeddingProvider = "openai" | "openai-compatible" | "local";
+
+/**
+ * The model a server's chunks are embedded with. It's stored in the server's
+ * database, so `add`, `update` and the server's own queries use the same one.
+ */
+export interface EmbeddingConfig {
+  provider: EmbeddingProvider;
+  model: string;
+  // Vector length, learned from the model's first embeddings when not known up front
+  dimension?: number;
+  // An OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl?: string;
+}
+
+/**
+ * The embedding flags of create.
+ */
+export interface EmbeddingFlags {
+  embeddingProvider?: string;
+  embeddingModel?: string;
+  embeddingBaseUrl?: string;
+}
+
+export interface Embedder {
+  // The most one request may carry, in tokens and in inputs
+  maxBatchTokens: number;
+  maxBatchSize: number;
+  // Runs on this machine's CPU, so parallel batches would only compete for it
+  local?: boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_EMBEDDING: EmbeddingConfig = {
+  provider: "openai",
+  model: "text-embedding-3-small",
+  dimension: 1536,
+};
+
+const OPENAI_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+// A small sentence-transformers model that runs fine on a laptop CPU
+const DEFAULT_LOCAL_MODEL = "Xenova/all-MiniLM-L6-v2";
+
+// Loaded on demand: it's an optional dependency that pulls in ONNX Runtime
+const TRANSFORMERS_PACKAGE = "@huggingface/transformers";
+
+const providers: Record<EmbeddingProvider, (config: EmbeddingConfig) => Embedder> = {
+  openai: (config) => {
+    const openai = new OpenAI();
+    return {
+      maxBatchTokens: 300_000,
+      maxBatchSize: 2048,
+      embed: async (texts) => {
+        const response = await openai.embeddings.create({ model: config.model, input: texts });
+        return response.data.map((item) => item.embedding);
+      },
+    };
+  },
+  "openai-compatible": (config) => {
+    // Local servers like Ollama don't check the key, but the client needs one
+    const openai = new OpenAI({
+      baseURL: config.baseUrl,
+      apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY || "unused",
+    });
+    // Self-hosted servers hold whole batches in memory, so keep them modest
+    return {
+      maxBatchTokens: 50_000,
+      maxBatchSize: 256,
+      embed: async (texts) => {
+        const response = await openai.embeddings.create({
+          model: config.model,
+          input: texts,
+          encoding_format: "float",
+        });
+        return response.data.map((item) => item.embedding);
+      },
+    };
+  },
+  local: (config) => {
+    let extractor: Promise<LocalExtractor> | null = null;
+    return {
+      maxBatchTokens: 8_000,
+      maxBatchSize: 32,
+      local: true,
+      embed: async (texts) => {
+        extractor ??= loadLocalModel(config.model);
+        const output = await (await extractor)(texts, { pooling: "mean", normalize: true });
+        return output.tolist();
+      },
+    };
+  },
+};
+
+type LocalExtractor = (
+  texts: string[],
+  options: { pooling: "mean"; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+// The part of transformers.js docslurp uses
+interface TransformersModule {
+  env: { cacheDir: string; localModelPath: string; allowRemoteModels: boolean };
+  pipeline(task: "feature-extraction", model: string): Promise<LocalExtractor>;
+}
+
+/**
+ * Works out the embedding model from create's flags, defaulting to OpenAI's
+ * text-embedding-3-small. Throws on an unknown provider or a missing model or URL.
+ */
+export function resolveEmbeddingConfig(flags: EmbeddingFlags): EmbeddingConfig {
+  const provider = (flags.embeddingProvider ?? (flags.embeddingBaseUrl ? "openai-compatible" : "openai")) as EmbeddingProvider;
+  if (!providers[provider]) {
+    throw new Error(
+      `Unknown embedding provider "${provider}". Expected one of: ${Object.keys(providers).join(", ")}`
+    );
+  }
+
+  if (provider === "openai") {
+    const model = flags.embeddingModel ?? DEFAULT_EMBEDDING.model;
+    return { provider, model, dimension: OPENAI_DIMENSIONS[model] };
+  }
+
+  if (provider === "openai-compatible") {
+    if (!flags.embeddingBaseUrl || !flags.embeddingModel) {
+      throw new Error("The openai-compatible provider needs --embedding-base-url and --embedding-model");
+    }
+    return { provider, model: flags.embeddingModel, baseUrl: flags.embeddingBaseUrl.replace(/\/+$/, "") };
+  }
+
+  // A model directory on disk is stored by absolute path, so the server finds it too
+  const model = flags.embeddingModel ?? DEFAULT_LOCAL_MODEL;
+  return { provider, model: fs.existsSync(model) ? path.resolve(model) : model };
+}
+
+/**
+ * Gets where transformers.js models are downloaded to. Servers with a local
+ * model have it in their metadata, so they load the same copy.
+ */
+export function getModelCacheDir(): string {
+  return path.join(getDataDir(), "models");
+}
+
+/**
+ * Creates the client for a stored or resolved embedding config.
+ */
+export function createEmbedder(config: EmbeddingConfig): Embedder {
+  return providers[config.provider](config);
+}
+
+/**
+ * Loads a transformers.js feature-extraction model. Downloaded models are cached
+ * under ~/.docslurp/models, where generated servers look for them too; a model
+ * given as a directory is loaded from disk without touching the network.
+ */
+async function loadLocalModel(model: string): Promise<LocalExtractor> {
+  let transformers: TransformersModule;
+  try {
+    transformers = await import(TRANSFORMERS_PACKAGE);
+  } catch {
+    throw new Error(
+      `Local embeddings need ${TRANSFORMERS_PACKAGE}. Install it next to docslurp: npm install -g ${TRANSFORMERS_PACKAGE}`
+    );
+  }
+
+  transformers.env.cacheDir = getModelCacheDir();
+  if (path.isAbsolute(model)) {
+    transformers.env.localModelPath = path.dirname(model);
+    transformers.env.allowRemoteModels = false;
+    model = path.basename(model);
+  }
+  return transformers.pipeline("feature-extraction", model);
+}
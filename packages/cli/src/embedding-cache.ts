@@ -0,0 +1,76 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import { getDataDir } from "./utils.js";
+
+/**
+ * Opens the embedding cache shared by every server: text already embedded
+ * once, by any server, isn't paid for again. Rows are keyed by model and the
+ * SHA-256 of the embedded text.
+ *
+ * Returns null if the cache can't be opened; embedding then just skips it.
+ */
+export function openEmbeddingCache(): Database.Database | null {
+  try {
+    const dataDir = getDataDir();
+    fs.mkdirSync(dataDir, { recursive: true });
+
+    const db = new Database(path.join(dataDir, "embedding-cache.db"));
+    // Several docslurp processes may embed at once
+    db.pragma("journal_mode = WAL");
+    db.pragma("busy_timeout = 5000");
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        model TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (model, content_hash)
+      )
+    `);
+    return db;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Looks up cached embeddings, returning the ones found by content hash.
+ */
+export function getCachedEmbeddings(
+  db: Database.Database,
+  model: string,
+  hashes: string[]
+): Map<string, number[]> {
+  const select = db.prepare("SELECT embedding FROM embeddings WHERE model = ? AND content_hash = ?");
+  const found = new Map<string, number[]>();
+
+  for (const hash of new Set(hashes)) {
+    const row = select.get(model, hash) as { embedding: Buffer } | undefined;
+    if (row) {
+      // Copy out of the Buffer first: its offset in the shared pool may not be 4-byte aligned
+      found.set(hash, Array.from(new Float32Array(new Uint8Array(row.embedding).buffer)));
+    }
+  }
+  return found;
+}
+
+/**
+ * Stores freshly generated embeddings by content hash.
+ */
+export function cacheEmbeddings(
+  db: Database.Database,
+  model: string,
+  entries: Array<{ hash: string; embedding: number[] }>
+): void {
+  const insert = db.prepare(
+    "INSERT OR REPLACE INTO embeddings (model, content_hash, embedding, created_at) VALUES (?, ?, ?, ?)"
+  );
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    for (const { hash, embedding } of entries) {
+      insert.run(model, hash, Buffer.from(new Float32Array(embedding).buffer), now);
+    }
+  })();
+}
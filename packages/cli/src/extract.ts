@@ -0,0 +1,83 @@
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import { toMarkdown } from "./markdown.js";
+
+/**
+ * Where a page's documentation lives, remembered per source.
+ * Both are CSS selectors, tried before (content) or removed on top of (remove) the defaults.
+ */
+export interface ExtractOptions {
+  contentSelectors?: string[];
+  removeSelectors?: string[];
+}
+
+// Common content containers, tried in order
+const CONTENT_SELECTORS = [
+  "main",
+  "article",
+  "[role='main']",
+  ".content",
+  ".main-content",
+  ".doc-content",
+  ".markdown-body",
+  "#content",
+];
+
+// Site chrome that ends up in every page otherwise
+const REMOVED_SELECTORS = [
+  "script",
+  "style",
+  "nav",
+  "footer",
+  "header",
+  "aside",
+  ".sidebar",
+  ".navigation",
+  ".menu",
+  ".ads",
+  ".advertisement",
+];
+
+/**
+ * Gets a page's title: its `<title>`, else its first heading.
+ */
+export function extractTitle($: CheerioAPI): string {
+  return $("title").first().text().trim() || $("h1").first().text().trim();
+}
+
+/**
+ * Extracts a page's main content as Markdown, shared by every HTML backend.
+ * Removes site chrome (nav, footers, sidebars, plus removeSelectors) from the
+ * document in place, then converts the first content container that matches:
+ * contentSelectors in order, then the common ones, then the whole body.
+ * Crawlers read a page's links before calling this, so removed navigation
+ * still leads to other pages.
+ */
+export function extractContent($: CheerioAPI, options: ExtractOptions = {}): string {
+  $([...REMOVED_SELECTORS, ...(options.removeSelectors || [])].join(", ")).remove();
+
+  for (const selector of [...(options.contentSelectors || []), ...CONTENT_SELECTORS]) {
+    const element = $(selector);
+    if (element.length > 0) {
+      const content = toMarkdown($, element);
+      if (content) return content;
+    }
+  }
+
+  return toMarkdown($, $("body"));
+}
+
+/**
+ * Checks that the content and remove selectors parse, so a typo fails up front
+ * instead of on every page.
+ */
+export function validateExtractOptions(options: ExtractOptions): void {
+  const $ = cheerio.load("");
+  for (const selector of [...(options.contentSelectors || []), ...(options.removeSelectors || [])]) {
+    try {
+      $(selector);
+    } catch {
+      throw new Error(`Invalid CSS selector: ${selector}`);
+    }
+  }
+}
@@ -1,7 +1,17 @@
 import FirecrawlApp from "@mendable/firecrawl-js";
-import { CrawledDocument } from "./crawl.js";
+import { CrawledDocument, CrawlResult, SkippedUrl } from "./crawl.js";
+import {
+  createUrlFilter,
+  getScopePath,
+  isRegexPattern,
+  patternToRegexSource,
+  UrlFilterOptions,
+} from "./url-filter.js";
+import { dedupeDocuments, resolveCanonicalUrl } from "./canonical.js";
+import { AuthOptions, createHeadersFor } from "./auth.js";
+import { ExtractOptions } from "./extract.js";
 
-interface FirecrawlOptions {
+interface FirecrawlOptions extends UrlFilterOptions, AuthOptions, ExtractOptions {
   maxPages: number;
 }
 
@@ -9,11 +19,13 @@ interface FirecrawlOptions {
  * Crawls a URL using Firecrawl API.
  * Handles JavaScript-rendered sites that cheerio can't process.
  * Requires FIRECRAWL_API_KEY environment variable.
+ * Auth headers and cookies are passed on to Firecrawl, which sends them to the site.
+ * Content and remove selectors become Firecrawl's includeTags/excludeTags.
  */
 export async function crawlWithFirecrawl(
   startUrl: string,
   options: FirecrawlOptions
-): Promise<CrawledDocument[]> {
+): Promise<CrawlResult> {
   const apiKey = process.env.FIRECRAWL_API_KEY;
 
   if (!apiKey) {
@@ -24,6 +36,9 @@ export async function crawlWithFirecrawl(
   }
 
   const firecrawl = new FirecrawlApp({ apiKey });
+  const headers = createHeadersFor(options)(startUrl);
+  const includeTags = options.contentSelectors?.length ? options.contentSelectors : undefined;
+  const excludeTags = options.removeSelectors?.length ? options.removeSelectors : undefined;
 
   // First try scraping a single page if it's a specific file URL
   // crawlUrl is for crawling entire sites, scrapeUrl is for single pages
@@ -34,6 +49,9 @@ export async function crawlWithFirecrawl(
     // Use scrape for single pages
     const result = await firecrawl.scrapeUrl(startUrl, {
       formats: ["markdown"],
+      headers,
+      includeTags,
+      excludeTags,
     });
 
     if (!result.success) {
@@ -42,21 +60,49 @@ export async function crawlWithFirecrawl(
 
     const content = result.markdown || "";
     if (content.length < 100) {
-      return [];
+      return { documents: [], skipped: [], pending: [], visited: [] };
     }
 
-    return [{
-      url: startUrl,
-      title: result.metadata?.title || "Untitled",
-      content: content,
-    }];
+    return {
+      documents: [{
+        url: startUrl,
+        title: result.metadata?.title || "Untitled",
+        content: content,
+      }],
+      skipped: [],
+      pending: [],
+      visited: [startUrl],
+    };
+  }
+
+  // For sites, use crawl. Firecrawl matches path regexes, so globs and the scope
+  // translate, but re: patterns test the full URL and can't be passed on. Excludes
+  // like that are applied to the results below; includes would need Firecrawl to
+  // crawl the whole site, so ask for a glob instead.
+  const regexInclude = options.include?.find(isRegexPattern);
+  if (regexInclude) {
+    throw new Error(
+      `Firecrawl filters by path, so the include pattern "${regexInclude}" can't be used with --firecrawl.\n` +
+        "Use a path glob instead, e.g. /docs/**"
+    );
   }
 
-  // For sites, use crawl
+  const includePaths = options.include?.length
+    ? options.include.map(patternToRegexSource)
+    : options.pathScope === false
+    ? undefined
+    : [patternToRegexSource(`${getScopePath(startUrl)}**`)];
+  const excludePaths = options.exclude?.filter((pattern) => !isRegexPattern(pattern)).map(patternToRegexSource);
+
   const result = await firecrawl.crawlUrl(startUrl, {
     limit: options.maxPages,
+    includePaths,
+    excludePaths: excludePaths?.length ? excludePaths : undefined,
     scrapeOptions: {
       formats: ["markdown"],
+      headers,
+      includeTags,
+      excludeTags,
     },
   });
 
@@ -65,19 +111,40 @@ export async function crawlWithFirecrawl(
   }
 
   const documents: CrawledDocument[] = [];
+  const skipped: SkippedUrl[] = [];
+  const urlFilter = createUrlFilter(startUrl, options);
   const pages = result.data || [];
 
   for (const page of pages) {
+    const reason = page.url && page.url !== startUrl ? urlFilter(page.url) : null;
+    if (reason) {
+      skipped.push({ url: page.url!, reason });
+      continue;
+    }
+
     // Skip pages without meaningful content
     const content = page.markdown || "";
     if (content.length < 100) continue;
 
+    // Firecrawl doesn't report <link rel="canonical">, but og:url is usually the same thing
+    const pageUrl = page.url || startUrl;
+    const canonicalUrl = resolveCanonicalUrl(page.metadata?.ogUrl, pageUrl);
+
     documents.push({
-      url: page.url || startUrl,
+      url: canonicalUrl !== pageUrl && !urlFilter(canonicalUrl) ? canonicalUrl : pageUrl,
       title: page.metadata?.title || page.url || "Untitled",
       content: content,
     });
   }
 
-  return documents;
+  // Firecrawl applies robots.txt on its side and doesn't report what it skipped
+  // Firecrawl runs the whole crawl server-side, so there's no frontier to resume from
+  const { documents: uniqueDocuments, duplicates } = dedupeDocuments(documents);
+  return {
+    documents: uniqueDocuments,
+    skipped,
+    pending: [],
+    visited: pages.map((page) => page.url || startUrl),
+    duplicates,
+  };
 }
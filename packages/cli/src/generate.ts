@@ -1,8 +1,21 @@
 import fs from "fs";
 import path from "path";
 import { DocumentChunk } from "./chunk.js";
+import { CrawledDocument } from "./crawl.js";
 import { getServersDir } from "./utils.js";
-import { openDatabase, insertChunkWithEmbedding } from "./db-utils.js";
+import { CrawlMethod } from "./crawlers.js";
+import { DEFAULT_EMBEDDING, EmbeddingConfig } from "./embedders.js";
+import {
+  openDatabase,
+  insertChunkWithEmbedding,
+  savePages,
+  saveEmbeddingConfig,
+  vectorTableSql,
+  PAGES_TABLE_SQL,
+  METADATA_TABLE_SQL,
+  SourceCrawlOptions,
+  CrawlState,
+} from "./db-utils.js";
 
 /**
  * Generates a complete MCP server for the given documentation.
@@ -11,7 +24,13 @@ import { openDatabase, insertChunkWithEmbedding } from "./db-utils.js";
 export async function generateMcpServer(
   name: string,
   sourceUrl: string,
-  chunks: DocumentChunk[]
+  chunks: DocumentChunk[],
+  documents: CrawledDocument[],
+  crawlMethod: CrawlMethod = "default",
+  crawlOptions: SourceCrawlOptions = {},
+  crawlState: CrawlState | null = null,
+  sourceVersion: string | null = null,
+  embedding: EmbeddingConfig = DEFAULT_EMBEDDING
 ): Promise<void> {
   const serverDir = path.join(getServersDir(), name);
 
@@ -31,7 +50,11 @@ export async function generateMcpServer(
       title TEXT NOT NULL,
       chunk_index INTEGER NOT NULL,
       source_id INTEGER DEFAULT 0,
-      embedding_blob BLOB
+      embedding_blob BLOB,
+      version TEXT,
+      breadcrumb TEXT,
+      chunk_type TEXT,
+      anchor TEXT
     );
 
     CREATE TABLE IF NOT EXISTS sources (
@@ -40,24 +63,41 @@ export async function generateMcpServer(
       added_at TEXT NOT NULL,
       page_count INTEGER DEFAULT 0,
       chunk_count INTEGER DEFAULT 0,
-      crawl_state TEXT
-    );
-
-    CREATE VIRTUAL TABLE IF NOT EXISTS vec_chunks USING vec0(
-      embedding float[1536]
+      crawl_state TEXT,
+      crawl_options TEXT,
+      crawl_method TEXT,
+      version TEXT
     );
   `);
+  db.exec(vectorTableSql(embedding.dimension!));
+  db.exec(PAGES_TABLE_SQL);
+  db.exec(METADATA_TABLE_SQL);
+  saveEmbeddingConfig(db, embedding);
 
   // Create the source entry
   const sourceResult = db
-    .prepare("INSERT INTO sources (url, added_at, page_count, chunk_count) VALUES (?, ?, ?, ?)")
-    .run(sourceUrl, new Date().toISOString(), new Set(chunks.map((c) => c.url)).size, chunks.length);
+    .prepare(
+      "INSERT INTO sources (url, added_at, page_count, chunk_count, crawl_state, crawl_options, crawl_method, version) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+    )
+    .run(
+      sourceUrl,
+      new Date().toISOString(),
+      new Set(chunks.map((c) => c.url)).size,
+      chunks.length,
+      crawlState ? JSON.stringify(crawlState) : null,
+      JSON.stringify(crawlOptions),
+      crawlMethod,
+      sourceVersion
+    );
   const sourceId = sourceResult.lastInsertRowid as number;
 
   // Insert chunks and embeddings
   for (const chunk of chunks) {
     insertChunkWithEmbedding(db, chunk, sourceId);
   }
+
+  // Record each page's hash so `update` can skip unchanged pages
+  savePages(db, sourceId, documents);
   db.close();
 
   // Write config file
@@ -75,10 +115,10 @@ export async function generateMcpServer(
   );
 
   // Write the MCP server files
-  await writeServerFiles(serverDir, name);
+  await writeServerFiles(serverDir, name, embedding);
 }
 
-async function writeServerFiles(serverDir: string, name: string): Promise<void> {
+async function writeServerFiles(serverDir: string, name: string, embedding: EmbeddingConfig): Promise<void> {
   // Package.json for the server
   const packageJson = {
     name: `${name}-mcp-server`,
@@ -91,6 +131,8 @@ async function writeServerFiles(serverDir: string, name: string): Promise<void>
       "sqlite-vec": "^0.1.6",
       "openai": "^4.0.0",
       "zod": "^3.23.0",
+      // Local models run in the server too, to embed queries
+      ...(embedding.provider === "local" && { "@huggingface/transformers": "^3.0.0" }),
     },
   };
 
@@ -116,7 +158,111 @@ const dbPath = path.join(__dirname, "vectors.db");
 const db = new Database(dbPath);
 sqliteVec.load(db);
 
-const openai = new OpenAI();
+// Queries are embedded with the model the index was built with
+const metadata = Object.fromEntries(
+  db.prepare("SELECT key, value FROM metadata").all().map(r => [r.key, r.value])
+);
+const embeddingProvider = metadata.embedding_provider || "openai";
+const embeddingModel = metadata.embedding_model || "text-embedding-3-small";
+
+function createQueryEmbedder() {
+  if (embeddingProvider === "local") {
+    let extractor = null;
+    return async (text) => {
+      if (!extractor) {
+        extractor = import("@huggingface/transformers").then(({ pipeline, env }) => {
+          // Share the models docslurp downloaded; a model directory loads without the network
+          if (metadata.model_cache_dir) env.cacheDir = metadata.model_cache_dir;
+          if (path.isAbsolute(embeddingModel)) {
+            env.localModelPath = path.dirname(embeddingModel);
+            env.allowRemoteModels = false;
+            return pipeline("feature-extraction", path.basename(embeddingModel));
+          }
+          return pipeline("feature-extraction", embeddingModel);
+        });
+      }
+      const output = await (await extractor)(text, { pooling: "mean", normalize: true });
+      return Array.from(output.data);
+    };
+  }
+
+  const openai = embeddingProvider === "openai-compatible"
+    ? new OpenAI({
+        baseURL: metadata.embedding_base_url,
+        apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY || "unused",
+      })
+    : new OpenAI();
+  return async (text) => {
+    const response = await openai.embeddings.create({
+      model: embeddingModel,
+      input: text,
+      ...(embeddingProvider === "openai-compatible" && { encoding_format: "float" }),
+    });
+    return response.data[0].embedding;
+  };
+}
+
+const embedQuery = createQueryEmbedder();
+
+// Versions present in the index, offered as the version filter
+const versions = db.prepare(
+  "SELECT DISTINCT version FROM chunks WHERE version IS NOT NULL ORDER BY version"
+).all().map(r => r.version);
+
+const versionDescription = versions.length > 0
+  ? \`Only use docs for this version. Available: \${versions.join(", ")}\`
+  : "Only use docs for this version";
+
+function normalizeVersion(version) {
+  return version.trim().toLowerCase().replace(/^v/, "");
+}
+
+// Link to the section a passage is from, unless the URL already has a fragment
+// (single-page app routes, API operations)
+function citationUrl(result) {
+  return result.anchor && !result.url.includes("#") ? \`\${result.url}#\${result.anchor}\` : result.url;
+}
+
+async function findSimilar(text, limit, version, type) {
+  const queryEmbedding = await embedQuery(text);
+  const embeddingBuffer = new Float32Array(queryEmbedding).buffer;
+
+  // Filters go inside the nearest-neighbour search, so it finds \`limit\`
+  // matches however small a share of the index they are
+  const filters = [];
+  const params = [];
+  if (version) {
+    const wanted = normalizeVersion(version);
+    filters.push("version IN (SELECT value FROM json_each(?))");
+    params.push(JSON.stringify(versions.filter(v => normalizeVersion(v) === wanted)));
+  }
+  if (type) {
+    // Chunks indexed before types existed count as prose
+    filters.push("COALESCE(chunk_type, 'prose') = ?");
+    params.push(type);
+  }
+  const rowFilter = filters.length > 0
+    ? \`AND vec_chunks.rowid IN (SELECT id FROM chunks WHERE \${filters.join(" AND ")})\`
+    : "";
+
+  return db.prepare(\`
+    SELECT
+      chunks.content,
+      chunks.url,
+      chunks.title,
+      chunks.breadcrumb,
+      chunks.version,
+      chunks.chunk_type,
+      chunks.anchor,
+      vec_chunks.distance
+    FROM vec_chunks
+    LEFT JOIN chunks ON chunks.id = vec_chunks.rowid
+    WHERE embedding MATCH ?
+      AND k = ?
+      \${rowFilter}
+    ORDER BY distance
+  \`).all(new Uint8Array(embeddingBuffer), limit, ...params);
+}
 
 const server = new McpServer({
   name: "${name}",
@@ -130,33 +276,17 @@ server.tool(
   {
     query: z.string().describe("What to search for"),
     limit: z.number().optional().describe("Number of results (default 5)"),
+    version: z.string().optional().describe(versionDescription),
+    type: z.enum(["prose", "code", "table"]).optional().describe("Only return passages that are mostly this: explanations, code samples or tables"),
   },
-  async ({ query, limit = 5 }) => {
+  async ({ query, limit = 5, version, type }) => {
     try {
-      // Generate embedding for the query
-      const response = await openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: query,
-      });
-      const queryEmbedding = response.data[0].embedding;
-      const embeddingBuffer = new Float32Array(queryEmbedding).buffer;
-
-      // Find similar chunks
-      const results = db.prepare(\`
-        SELECT
-          chunks.content,
-          chunks.url,
-          chunks.title,
-          vec_chunks.distance
-        FROM vec_chunks
-        LEFT JOIN chunks ON chunks.id = vec_chunks.rowid
-        WHERE embedding MATCH ?
-          AND k = ?
-        ORDER BY distance
-      \`).all(new Uint8Array(embeddingBuffer), limit);
+      const results = await findSimilar(query, limit, version, type);
 
       const formatted = results.map((r, i) =>
-        \`[\${i + 1}] \${r.title}\\n\${r.content}\\nSource: \${r.url}\`
+        \`[\${i + 1}] \${r.title}\${r.version ? \` (\${r.version})\` : ""}\\n\` +
+        (r.breadcrumb ? \`Section: \${r.breadcrumb}\\n\` : "") +
+        \`\${r.content}\\nSource: \${citationUrl(r)}\`
       ).join("\\n\\n---\\n\\n");
 
       return {
@@ -177,28 +307,15 @@ server.tool(
   "Ask a question about the documentation and get an answer with sources.",
   {
     question: z.string().describe("Your question"),
+    version: z.string().optional().describe(versionDescription),
   },
-  async ({ question }) => {
+  async ({ question, version }) => {
     try {
       // Get relevant context
-      const response = await openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: question,
-      });
-      const queryEmbedding = response.data[0].embedding;
-      const embeddingBuffer = new Float32Array(queryEmbedding).buffer;
-
-      const results = db.prepare(\`
-        SELECT chunks.content, chunks.url, chunks.title
-        FROM vec_chunks
-        LEFT JOIN chunks ON chunks.id = vec_chunks.rowid
-        WHERE embedding MATCH ?
-          AND k = 5
-        ORDER BY distance
-      \`).all(new Uint8Array(embeddingBuffer));
+      const results = await findSimilar(question, 5, version);
 
       const context = results.map(r => r.content).join("\\n\\n");
-      const sources = [...new Set(results.map(r => r.url))];
+      const sources = [...new Set(results.map(citationUrl))];
 
       return {
         content: [{
@@ -0,0 +1,210 @@
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import { fetchWithRetry } from "./http.js";
+import { createHeadersFor, AuthOptions } from "./auth.js";
+import { createUrlFilter } from "./url-filter.js";
+import { SourceCrawlOptions } from "./db-utils.js";
+
+/**
+ * What we know about a documentation generator's output.
+ */
+interface GeneratorPreset {
+  name: string;
+  detect: ($: CheerioAPI, generatorMeta: string) => boolean;
+  contentSelectors: string[];
+  // Chrome kept out of the content; links in it (sidebars, prev/next) are still crawled
+  removeSelectors?: string[];
+  // Other versions and generated index pages, skipped unless the crawl starts in one
+  exclude?: string[];
+  // Where the generator writes its sitemap, if it's not at the site root
+  sitemap?: ($: CheerioAPI, pageUrl: string) => string | null;
+}
+
+/**
+ * A docs site as recognized from its start page.
+ */
+export interface DetectedSite {
+  generator: string | null;
+  options: SourceCrawlOptions;
+  // The start page is an empty shell that only renders with JavaScript
+  needsRendering: boolean;
+}
+
+// A page with less text than this and an empty app root is a client-rendered shell
+const SHELL_TEXT_LENGTH = 200;
+const APP_ROOTS = "#root, #app, #__next, #__nuxt, #svelte, #___gatsby";
+
+const PRESETS: GeneratorPreset[] = [
+  {
+    name: "Docusaurus",
+    detect: ($, meta) => /^docusaurus/i.test(meta) || $("#__docusaurus").length > 0,
+    contentSelectors: [".theme-doc-markdown", "article"],
+    removeSelectors: [
+      ".theme-doc-toc-mobile",
+      ".theme-doc-toc-desktop",
+      ".theme-doc-breadcrumbs",
+      ".theme-doc-version-banner",
+      ".theme-doc-footer",
+      ".pagination-nav",
+      ".hash-link",
+    ],
+    exclude: ["re:/docs/next(/|$)", "re:/docs/\\d+(\\.\\d+)*(\\.x)?(/|$)"],
+  },
+  {
+    name: "MkDocs",
+    detect: ($, meta) => /^mkdocs/i.test(meta) || $(".md-content").length > 0,
+    contentSelectors: [".md-content__inner", "div[role='main']"],
+    removeSelectors: [".md-source-file", ".md-content__button", ".md-feedback", ".headerlink"],
+    sitemap: ($, pageUrl) => {
+      // Material writes the site root into its config, the default theme into base_url
+      const config = $("#__config").text();
+      const base = config ? JSON.parse(config).base : $("script").text().match(/base_url\s*=\s*["']([^"']*)["']/)?.[1];
+      return base !== undefined ? new URL(`${base.replace(/\/?$/, "/")}sitemap.xml`, pageUrl).href : null;
+    },
+  },
+  {
+    name: "Sphinx",
+    detect: ($, meta) =>
+      /docutils|sphinx/i.test(meta) || $("script[src*='_static/documentation_options.js']").length > 0,
+    contentSelectors: ["[itemprop='articleBody']", "article.bd-article", "div.body", "div[role='main']"],
+    removeSelectors: [".headerlink", ".rst-versions", ".sphinxsidebar", ".related", ".prev-next-area", ".bd-sidebar-secondary"],
+    exclude: ["_modules/**", "_sources/**", "genindex.html", "py-modindex.html", "search.html"],
+    sitemap: ($, pageUrl) => {
+      // The docs root is wherever _static/ lives
+      const staticHref = $("link[href*='_static/'], script[src*='_static/']").first();
+      const href = staticHref.attr("href") || staticHref.attr("src");
+      return href ? new URL(`${href.slice(0, href.indexOf("_static/"))}sitemap.xml`, pageUrl).href : null;
+    },
+  },
+  {
+    name: "GitBook",
+    detect: ($, meta) => /gitbook/i.test(meta),
+    contentSelectors: ["main"],
+    sitemap: (_, pageUrl) => new URL("/sitemap-pages.xml", pageUrl).href,
+  },
+  {
+    name: "VitePress",
+    detect: ($, meta) => /^vitepress/i.test(meta) || $("#VPContent").length > 0,
+    contentSelectors: [".vp-doc"],
+    removeSelectors: [".header-anchor", ".VPDocAside", ".VPDocFooter", ".edit-link", ".prev-next"],
+  },
+  {
+    name: "Mintlify",
+    detect: ($, meta) => /mintlify/i.test(meta) || $("script[src*='mintlify'], link[href*='mintlify']").length > 0,
+    contentSelectors: ["#content-area"],
+    removeSelectors: ["#table-of-contents", "#pagination"],
+  },
+  {
+    name: "Nextra",
+    detect: ($, meta) => /nextra/i.test(meta) || $(".nextra-content, .nextra-nav-container, .nextra-sidebar-container").length > 0,
+    contentSelectors: [".nextra-content main", "article main"],
+    removeSelectors: [".nextra-toc", ".nextra-breadcrumb", ".nextra-sidebar-container"],
+  },
+];
+
+/**
+ * Fetches the start page and recognizes the docs generator behind it
+ * (Docusaurus, MkDocs, Sphinx, GitBook, VitePress, Mintlify, Nextra).
+ *
+ * Returns the generator's preset as crawl options: where the content is and
+ * what chrome to strip, where its sitemap lives, and which URLs belong to other
+ * versions. Translations are excluded for any site that links them with
+ * `hreflang` alternates under a locale prefix (`/fr/...`).
+ *
+ * Never throws - a site that can't be fetched or recognized gets no preset.
+ */
+export async function detectSite(startUrl: string, auth: AuthOptions = {}): Promise<DetectedSite> {
+  const detected: DetectedSite = { generator: null, options: {}, needsRendering: false };
+
+  let html: string;
+  let pageUrl: string;
+  try {
+    const response = await fetchWithRetry(startUrl, { headers: createHeadersFor(auth)(startUrl), retries: 1 });
+    if (!response.ok || !/html/i.test(response.headers.get("content-type") || "")) {
+      return detected;
+    }
+    html = await response.text();
+    pageUrl = response.url || startUrl;
+  } catch {
+    return detected;
+  }
+
+  const $ = cheerio.load(html);
+  const generatorMeta = $("meta[name='generator']").attr("content") || "";
+  const preset = PRESETS.find((candidate) => candidate.detect($, generatorMeta));
+
+  // Other versions and locales stay out of the crawl, unless it starts in one of them
+  const exclude = [...(preset?.exclude || []), ...getLocaleExcludes($, pageUrl)].filter(
+    (pattern) => !createUrlFilter(startUrl, { exclude: [pattern], pathScope: false })(startUrl)
+  );
+  if (exclude.length > 0) {
+    detected.options.exclude = exclude;
+  }
+
+  if (preset) {
+    detected.generator = preset.name;
+    detected.options.contentSelectors = preset.contentSelectors;
+    detected.options.removeSelectors = preset.removeSelectors;
+
+    try {
+      const sitemap = preset.sitemap?.($, pageUrl);
+      if (sitemap) {
+        detected.options.sitemaps = [sitemap];
+      }
+    } catch {
+      // Unreadable config - the usual sitemap locations still get checked
+    }
+  }
+
+  // Every preset's generator renders on the server; anything else may be a single-page app
+  if (!preset) {
+    $("script, style, noscript").remove();
+    const emptyRoot = $(APP_ROOTS).filter((_, element) => !$(element).text().trim()).length > 0;
+    detected.needsRendering = emptyRoot && $("body").text().replace(/\s+/g, " ").trim().length < SHELL_TEXT_LENGTH;
+  }
+
+  return detected;
+}
+
+/**
+ * Merges a detected preset into the crawl options. Options the user passed win;
+ * excludes are combined.
+ */
+export function applySitePreset(options: SourceCrawlOptions, site: DetectedSite): SourceCrawlOptions {
+  const preset = site.options;
+  const exclude = [...(options.exclude || []), ...(preset.exclude || [])];
+  return {
+    ...options,
+    generator: site.generator ?? undefined,
+    contentSelectors: options.contentSelectors ?? preset.contentSelectors,
+    removeSelectors: options.removeSelectors ?? preset.removeSelectors,
+    exclude: exclude.length > 0 ? exclude : undefined,
+    sitemaps: preset.sitemaps,
+  };
+}
+
+/**
+ * Turns `hreflang` alternates that add a locale prefix to the page's path
+ * (`/docs/intro` -> `/fr/docs/intro`) into exclude patterns for those prefixes.
+ */
+function getLocaleExcludes($: CheerioAPI, pageUrl: string): string[] {
+  const page = new URL(pageUrl);
+  const excludes = new Set<string>();
+
+  $("link[rel='alternate'][hreflang]").each((_, element) => {
+    const href = $(element).attr("href");
+    if (!href || $(element).attr("hreflang") === "x-default") return;
+
+    try {
+      const alternate = new URL(href, pageUrl);
+      const prefix = alternate.pathname.match(/^\/([^/]+)(\/.*)$/);
+      if (alternate.origin === page.origin && prefix && prefix[2] === page.pathname) {
+        excludes.add(`/${prefix[1]}/**`);
+      }
+    } catch {
+      // Invalid URL, skip
+    }
+  });
+
+  return [...excludes];
+}
@@ -0,0 +1,96 @@
+import { USER_AGENT, sleep } from "./utils.js";
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_RETRY_AFTER_MS = 60000;
+
+export interface FetchOptions {
+  timeoutMs?: number;
+  retries?: number;
+  headers?: Record<string, string>;
+  throttle?: HostThrottle;
+}
+
+/**
+ * Spaces out requests to each host so we never exceed a per-host rate.
+ * Safe to share between concurrent workers - each caller reserves the next free slot.
+ */
+export class HostThrottle {
+  private nextSlot = new Map<string, number>();
+
+  constructor(private intervalMs: number) {}
+
+  async wait(url: string): Promise<void> {
+    if (this.intervalMs <= 0) return;
+
+    const host = new URL(url).host;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(host) || 0);
+    this.nextSlot.set(host, slot + this.intervalMs);
+
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+/**
+ * Fetches a URL with a timeout, retrying network errors, 429s and 5xx responses
+ * with exponential backoff (1s, 2s, 4s). Honors Retry-After when the server sends one.
+ * Non-retryable responses (404 etc.) are returned as-is for the caller to handle.
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: FetchOptions = {}
+): Promise<Response> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    await options.throttle?.wait(url);
+
+    let delay = BASE_DELAY_MS * Math.pow(2, attempt);
+
+    try {
+      const response = await fetch(url, {
+        headers: { "User-Agent": USER_AGENT, ...options.headers },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (!isRetryableStatus(response.status) || attempt >= retries) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      if (retryAfter !== null) {
+        delay = Math.min(Math.max(retryAfter, delay), MAX_RETRY_AFTER_MS);
+      }
+    } catch (error) {
+      if (attempt >= retries) {
+        throw error;
+      }
+    }
+
+    await sleep(delay);
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
@@ -9,6 +9,13 @@ import { connectServer } from "./commands/connect.js";
 import { listSources } from "./commands/sources.js";
 import { updateServer } from "./commands/update.js";
 
+/**
+ * Collects a repeatable option into an array.
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
 const program = new Command();
 
 program
@@ -18,13 +25,42 @@ program
 
 program
   .command("create", { isDefault: true })
-  .description("Create an MCP server from a documentation URL")
-  .argument("<url>", "The documentation URL to crawl")
+  .description("Create an MCP server from a documentation URL or local directory")
+  .argument("<url>", "The documentation URL or local path to crawl")
   .requiredOption("-n, --name <name>", "Name for the MCP server")
   .option("-d, --depth <number>", "Maximum crawl depth", "3")
   .option("-m, --max-pages <number>", "Maximum pages to crawl", "100")
   .option("-f, --firecrawl", "Use Firecrawl for JS-rendered sites")
   .option("-p, --playwright", "Use Playwright for JS-rendered sites (slower but free)")
+  .option("--sitemap-only", "Only crawl pages listed in the site's sitemaps")
+  .option("--no-llms-txt", "Crawl the site even if it publishes llms.txt or llms-full.txt")
+  .option("--ignore-robots", "Ignore robots.txt Disallow rules and Crawl-delay")
+  .option("-c, --concurrency <number>", "Parallel requests for the default crawler", "5")
+  .option("--rate-limit <number>", "Max requests per second to each host", "5")
+  .option("--include <pattern>", "Only crawl URLs matching a glob or re:regex (repeatable)", collect)
+  .option("--exclude <pattern>", "Skip URLs matching a glob or re:regex (repeatable)", collect)
+  .option("--no-path-scope", "Follow links outside the start URL's path")
+  .option("--header <header>", "Send a header, e.g. 'Authorization: Bearer ${TOKEN}' (repeatable)", collect)
+  .option("--cookie-file <path>", "Send cookies from a Netscape cookies.txt or JSON file")
+  .option("--storage-state <path>", "Start Playwright from a saved storage state (e.g. after SSO login)")
+  .option("--wait-for <selector>", "Playwright: wait for this selector instead of network idle")
+  .option("--click <selector>", "Playwright: click matching elements (tabs, toggles) before extracting (repeatable)", collect)
+  .option("--hash-routes", "Playwright: crawl #/ routes of single-page apps as separate pages")
+  .option("--block-resources", "Playwright: skip images, fonts, media and analytics for faster rendering")
+  .option("--content-selector <selector>", "CSS selector of the page's main content, tried before the defaults (repeatable)", collect)
+  .option("--remove-selector <selector>", "CSS selector of elements to strip, e.g. a sidebar (repeatable)", collect)
+  .option("--chunk-size <tokens>", "Maximum tokens per chunk", "500")
+  .option("--chunk-overlap <tokens>", "Max tokens of overlap between consecutive chunks of a long section", "50")
+  .option("--no-detect", "Don't detect the docs generator (Docusaurus, MkDocs, Sphinx...) and apply its preset")
+  .option("--base-url <url>", "Public URL of a local docs directory, used in citations")
+  .option("--openapi", "Treat the URL or path as an OpenAPI/Swagger spec (JSON or YAML)")
+  .option("--doc-version <label>", "Version label for these docs (default: detected from the URL)")
+  .option("--embedding-provider <provider>", "Embed with openai, openai-compatible or local (default: openai)")
+  .option("--embedding-model <model>", "Embedding model name, or a local model directory (default: the provider's)")
+  .option("--embedding-base-url <url>", "Base URL of an OpenAI-compatible embeddings API, e.g. http://localhost:11434/v1")
+  .option("--embedding-concurrency <number>", "Embedding batches to send at once (default: 4)")
+  .option("--embedding-tpm <tokens>", "Embedding tokens per minute to stay under, e.g. your API tier's limit")
+  .option("--dry-run", "Crawl and show what would be indexed, without embedding or creating the server")
   .action(async (url, options) => {
     await createServer(url, options);
   });
@@ -32,12 +68,37 @@ program
 program
   .command("add")
   .description("Add more documentation to an existing server")
-  .argument("<url>", "The documentation URL to add")
+  .argument("<url>", "The documentation URL or local path to add")
   .requiredOption("-t, --to <name>", "Name of the server to add to")
   .option("-d, --depth <number>", "Maximum crawl depth", "3")
   .option("-m, --max-pages <number>", "Maximum pages to crawl", "100")
   .option("-f, --firecrawl", "Use Firecrawl for JS-rendered sites")
   .option("-p, --playwright", "Use Playwright for JS-rendered sites (slower but free)")
+  .option("--sitemap-only", "Only crawl pages listed in the site's sitemaps")
+  .option("--no-llms-txt", "Crawl the site even if it publishes llms.txt or llms-full.txt")
+  .option("--ignore-robots", "Ignore robots.txt Disallow rules and Crawl-delay")
+  .option("-c, --concurrency <number>", "Parallel requests for the default crawler", "5")
+  .option("--rate-limit <number>", "Max requests per second to each host", "5")
+  .option("--include <pattern>", "Only crawl URLs matching a glob or re:regex (repeatable)", collect)
+  .option("--exclude <pattern>", "Skip URLs matching a glob or re:regex (repeatable)", collect)
+  .option("--no-path-scope", "Follow links outside the start URL's path")
+  .option("--header <header>", "Send a header, e.g. 'Authorization: Bearer ${TOKEN}' (repeatable)", collect)
+  .option("--cookie-file <path>", "Send cookies from a Netscape cookies.txt or JSON file")
+  .option("--storage-state <path>", "Start Playwright from a saved storage state (e.g. after SSO login)")
+  .option("--wait-for <selector>", "Playwright: wait for this selector instead of network idle")
+  .option("--click <selector>", "Playwright: click matching elements (tabs, toggles) before extracting (repeatable)", collect)
+  .option("--hash-routes", "Playwright: crawl #/ routes of single-page apps as separate pages")
+  .option("--block-resources", "Playwright: skip images, fonts, media and analytics for faster rendering")
+  .option("--content-selector <selector>", "CSS selector of the page's main content, tried before the defaults (repeatable)", collect)
+  .option("--remove-selector <selector>", "CSS selector of elements to strip, e.g. a sidebar (repeatable)", collect)
+  .option("--chunk-size <tokens>", "Maximum tokens per chunk", "500")
+  .option("--chunk-overlap <tokens>", "Max tokens of overlap between consecutive chunks of a long section", "50")
+  .option("--no-detect", "Don't detect the docs generator (Docusaurus, MkDocs, Sphinx...) and apply its preset")
+  .option("--base-url <url>", "Public URL of a local docs directory, used in citations")
+  .option("--openapi", "Treat the URL or path as an OpenAPI/Swagger spec (JSON or YAML)")
+  .option("--doc-version <label>", "Version label for these docs (default: detected from the URL)")
+  .option("--embedding-concurrency <number>", "Embedding batches to send at once (default: 4)")
+  .option("--embedding-tpm <tokens>", "Embedding tokens per minute to stay under, e.g. your API tier's limit")
   .option("--force", "Skip duplicate check, always add as new source")
   .option("--continue", "Resume a previous interrupted crawl")
   .action(async (url, options) => {
@@ -49,10 +110,33 @@ program
   .description("Re-scrape and update sources for an existing server")
   .argument("<name>", "Name of the server to update")
   .option("-u, --url <url>", "Only update a specific source URL")
-  .option("-d, --depth <number>", "Maximum crawl depth", "3")
-  .option("-m, --max-pages <number>", "Maximum pages to crawl", "100")
-  .option("-f, --firecrawl", "Use Firecrawl for JS-rendered sites")
-  .option("-p, --playwright", "Use Playwright for JS-rendered sites (slower but free)")
+  .option("-d, --depth <number>", "Maximum crawl depth (default: the source's setting)")
+  .option("-m, --max-pages <number>", "Maximum pages to crawl (default: the source's setting)")
+  .option("-f, --firecrawl", "Re-crawl with Firecrawl instead of the source's crawler")
+  .option("-p, --playwright", "Re-crawl with Playwright instead of the source's crawler")
+  .option("--sitemap-only", "Only crawl pages listed in the site's sitemaps")
+  .option("--no-llms-txt", "Crawl the site even if it publishes llms.txt or llms-full.txt")
+  .option("--ignore-robots", "Ignore robots.txt Disallow rules and Crawl-delay")
+  .option("-c, --concurrency <number>", "Parallel requests for the default crawler (default: the source's setting)")
+  .option("--rate-limit <number>", "Max requests per second to each host (default: the source's setting)")
+  .option("--include <pattern>", "Only crawl URLs matching a glob or re:regex (repeatable)", collect)
+  .option("--exclude <pattern>", "Skip URLs matching a glob or re:regex (repeatable)", collect)
+  .option("--no-path-scope", "Follow links outside the start URL's path")
+  .option("--header <header>", "Send a header, e.g. 'Authorization: Bearer ${TOKEN}' (repeatable)", collect)
+  .option("--cookie-file <path>", "Send cookies from a Netscape cookies.txt or JSON file")
+  .option("--storage-state <path>", "Start Playwright from a saved storage state (e.g. after SSO login)")
+  .option("--wait-for <selector>", "Playwright: wait for this selector instead of network idle")
+  .option("--click <selector>", "Playwright: click matching elements (tabs, toggles) before extracting (repeatable)", collect)
+  .option("--hash-routes", "Playwright: crawl #/ routes of single-page apps as separate pages")
+  .option("--block-resources", "Playwright: skip images, fonts, media and analytics for faster rendering")
+  .option("--content-selector <selector>", "CSS selector of the page's main content, tried before the defaults (repeatable)", collect)
+  .option("--remove-selector <selector>", "CSS selector of elements to strip, e.g. a sidebar (repeatable)", collect)
+  .option("--chunk-size <tokens>", "Maximum tokens per chunk, re-chunking every page (default: the source's setting)")
+  .option("--chunk-overlap <tokens>", "Max tokens of overlap between consecutive chunks of a long section (default: the source's setting)")
+  .option("--embedding-concurrency <number>", "Embedding batches to send at once (default: 4)")
+  .option("--embedding-tpm <tokens>", "Embedding tokens per minute to stay under, e.g. your API tier's limit")
+  .option("--full", "Re-embed every page, not just the ones that changed")
+  .option("--doc-version <label>", "Change the version label of the updated sources")
   .action(async (name, options) => {
     await updateServer(name, options);
   });
@@ -88,4 +172,4 @@ program
     await connectServer(name);
   });
 
-program.parse();
+await program.parseAsync();
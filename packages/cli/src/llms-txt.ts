@@ -0,0 +1,181 @@
+import { CrawledDocument } from "./crawl.js";
+import { fetchWithRetry } from "./http.js";
+
+/**
+ * An llms.txt file found for a docs site. llms-full.txt gives the pages'
+ * content directly; llms.txt gives the list of pages worth crawling.
+ */
+export interface LlmsTxt {
+  url: string;
+  documents?: CrawledDocument[];
+  links?: string[];
+}
+
+// Sections shorter than this are link stubs or headers, not pages
+const MIN_CONTENT_LENGTH = 100;
+
+/**
+ * Looks for /llms-full.txt and /llms.txt next to the start path and at the site root.
+ * llms-full.txt wins since it saves fetching any pages at all.
+ * Returns null if the site publishes neither.
+ */
+export async function discoverLlmsTxt(
+  startUrl: string,
+  headers: Record<string, string> = {}
+): Promise<LlmsTxt | null> {
+  const baseUrl = new URL(startUrl);
+  const startDir = baseUrl.pathname.replace(/[^/]*$/, "");
+  const dirs = startDir !== "/" ? [startDir, "/"] : ["/"];
+
+  for (const dir of dirs) {
+    const url = new URL(`${dir}llms-full.txt`, baseUrl.origin).href;
+    const text = await fetchTextFile(url, headers);
+    if (!text) continue;
+
+    const documents = splitLlmsFullTxt(text, url);
+    if (documents.length > 0) {
+      return { url, documents };
+    }
+  }
+
+  for (const dir of dirs) {
+    const url = new URL(`${dir}llms.txt`, baseUrl.origin).href;
+    const text = await fetchTextFile(url, headers);
+    if (!text) continue;
+
+    const links = parseLlmsTxtLinks(text, url);
+    if (links.length > 0) {
+      return { url, links };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fetches a plain-text file. Returns null if it's missing, or if the site
+ * answered with an HTML page (a soft 404).
+ */
+async function fetchTextFile(url: string, headers: Record<string, string>): Promise<string | null> {
+  try {
+    const response = await fetchWithRetry(url, { retries: 1, headers });
+    if (!response.ok) return null;
+
+    const contentType = response.headers.get("content-type") || "";
+    const text = await response.text();
+    if (contentType.includes("html") || /^\s*</.test(text)) {
+      return null;
+    }
+    return text;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Splits llms-full.txt into one document per page.
+ *
+ * Pages start with an H1 - or with an H2 when the file only has a single H1
+ * (the site name). Most generators put a `Source: <url>` line under each
+ * heading; pages without one get an anchor on the llms-full.txt URL.
+ */
+export function splitLlmsFullTxt(text: string, fileUrl: string): CrawledDocument[] {
+  const lines = text.split("\n");
+  const headingLines = findHeadingLines(lines);
+  const h1Count = headingLines.filter((index) => lines[index].startsWith("# ")).length;
+  const marker = h1Count > 1 ? "# " : "## ";
+  const starts = headingLines.filter((index) => lines[index].startsWith(marker));
+
+  const documents: CrawledDocument[] = [];
+  const usedUrls = new Set<string>();
+
+  starts.forEach((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1] : lines.length;
+    const section = lines.slice(start, end);
+    const title = section[0].slice(marker.length).trim();
+
+    // Pull the page's URL out of the lines right under the heading
+    let url: string | null = null;
+    for (let j = 1; j < Math.min(section.length, 6); j++) {
+      const match = section[j].match(/^(?:Source|URL):\s*(\S+)\s*$/i);
+      if (match) {
+        url = resolveUrl(match[1], fileUrl);
+        section.splice(j, 1);
+        break;
+      }
+    }
+
+    if (!url || usedUrls.has(url)) {
+      url = uniqueAnchorUrl(fileUrl, title, usedUrls);
+    }
+    usedUrls.add(url);
+
+    const content = section.join("\n").trim();
+    if (content.length > MIN_CONTENT_LENGTH) {
+      documents.push({ url, title, content });
+    }
+  });
+
+  return documents;
+}
+
+/**
+ * Extracts the page links from llms.txt: Markdown links in list items,
+ * `- [Title](https://...): notes`.
+ */
+export function parseLlmsTxtLinks(text: string, fileUrl: string): string[] {
+  const links = new Set<string>();
+
+  for (const line of text.split("\n")) {
+    if (!/^\s*[-*+]\s/.test(line)) continue;
+
+    for (const match of line.matchAll(/\[[^\]]*\]\(([^)\s]+)[^)]*\)/g)) {
+      const url = resolveUrl(match[1], fileUrl);
+      if (url) links.add(url);
+    }
+  }
+
+  return [...links];
+}
+
+/**
+ * Returns the indexes of heading lines, ignoring `#` lines inside code fences.
+ */
+function findHeadingLines(lines: string[]): number[] {
+  const headings: number[] = [];
+  let fence: string | null = null;
+
+  lines.forEach((line, index) => {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+      return;
+    }
+    if (!fence && /^#{1,2} \S/.test(line)) {
+      headings.push(index);
+    }
+  });
+
+  return headings;
+}
+
+function resolveUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    url.hash = "";
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+function uniqueAnchorUrl(fileUrl: string, title: string, usedUrls: Set<string>): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "page";
+  let url = `${fileUrl}#${slug}`;
+  for (let n = 2; usedUrls.has(url); n++) {
+    url = `${fileUrl}#${slug}-${n}`;
+  }
+  return url;
+}
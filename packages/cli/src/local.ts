@@ -0,0 +1,254 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { CrawledDocument, CrawlResult, SkippedUrl } from "./crawl.js";
+import { createUrlFilter, UrlFilterOptions } from "./url-filter.js";
+import { dedupeDocuments } from "./canonical.js";
+
+interface LocalOptions extends UrlFilterOptions {
+  baseUrl?: string;
+}
+
+const DOC_EXTENSIONS = new Set([".md", ".markdown", ".mdx", ".rst"]);
+const IGNORED_DIRS = new Set(["node_modules", "vendor", "dist", "build", "_build"]);
+
+// RST section adornment characters
+const RST_ADORNMENT = /^([=\-~^"'`*+#:.])\1{2,}\s*$/;
+
+/**
+ * Checks whether a source location is a local path or file:// URL rather than a website.
+ */
+export function isLocalSource(location: string): boolean {
+  if (location.startsWith("file://")) return true;
+  if (/^https?:\/\//i.test(location)) return false;
+  return fs.existsSync(location);
+}
+
+/**
+ * Turns a local path into the file:// URL we store as the source URL.
+ */
+export function toFileUrl(location: string): string {
+  if (location.startsWith("file://")) return location;
+  return pathToFileURL(path.resolve(location)).href;
+}
+
+/**
+ * Reads a local documentation directory (or a single file) into documents.
+ * Picks up Markdown, MDX and reStructuredText, takes titles from front-matter
+ * or the first heading, and strips MDX imports/exports and component tags.
+ *
+ * Each document's URL is its path relative to the root, or a page URL under
+ * baseUrl when the docs are also published somewhere (`guide/intro.md` ->
+ * `https://docs.example.com/guide/intro`).
+ *
+ * Include/exclude globs match the relative path with a leading slash
+ * (`/guide/**`, `*.mdx`).
+ */
+export async function readLocalDocs(
+  location: string,
+  options: LocalOptions = {}
+): Promise<CrawlResult> {
+  const rootPath = location.startsWith("file://") ? fileURLToPath(location) : path.resolve(location);
+
+  if (!fs.existsSync(rootPath)) {
+    throw new Error(`Path not found: ${rootPath}`);
+  }
+
+  const isFile = fs.statSync(rootPath).isFile();
+  const rootDir = isFile ? path.dirname(rootPath) : rootPath;
+  const files = isFile ? [rootPath] : listDocFiles(rootDir);
+
+  // Filter on a virtual file:/// URL so globs see the path relative to the root
+  const urlFilter = createUrlFilter("file:///", options);
+  const documents: CrawledDocument[] = [];
+  const skipped: SkippedUrl[] = [];
+  const visited: string[] = [];
+
+  for (const file of files) {
+    const relativePath = path.relative(rootDir, file).split(path.sep).join("/");
+    const reason = urlFilter(`file:///${relativePath}`);
+    if (reason) {
+      skipped.push({ url: relativePath, reason });
+      continue;
+    }
+    visited.push(relativePath);
+
+    const raw = fs.readFileSync(file, "utf-8");
+    const extension = path.extname(file).toLowerCase();
+    const { title, content } = parseDocFile(raw, extension);
+
+    if (content.length < 100) {
+      continue;
+    }
+
+    documents.push({
+      url: getDocumentUrl(relativePath, options.baseUrl),
+      title: title || path.basename(file, extension),
+      content,
+    });
+  }
+
+  // Docs trees often carry copies of the same file (README.md next to index.md)
+  const { documents: uniqueDocuments, duplicates } = dedupeDocuments(documents);
+  return { documents: uniqueDocuments, skipped, pending: [], visited, duplicates };
+}
+
+/**
+ * Recursively lists documentation files, skipping hidden and build directories.
+ */
+function listDocFiles(dir: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith(".")) continue;
+
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name)) {
+        files.push(...listDocFiles(fullPath));
+      }
+    } else if (DOC_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+function getDocumentUrl(relativePath: string, baseUrl?: string): string {
+  if (!baseUrl) {
+    return relativePath;
+  }
+
+  // guide/intro.md -> guide/intro, guide/index.md -> guide/
+  const pagePath = relativePath
+    .replace(/\.(md|markdown|mdx|rst)$/i, "")
+    .replace(/(^|\/)(index|README)$/i, "$1");
+  return new URL(pagePath, baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`).href;
+}
+
+/**
+ * Splits off front-matter and converts the file body to Markdown.
+ */
+function parseDocFile(raw: string, extension: string): { title: string; content: string } {
+  let body = raw.replace(/^\uFEFF/, "");
+  let title = "";
+
+  const frontMatter = body.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  if (frontMatter) {
+    const titleMatch = frontMatter[1].match(/^title:\s*(.+)$/m);
+    if (titleMatch) {
+      title = titleMatch[1].trim().replace(/^(["'])(.*)\1$/, "$2");
+    }
+    body = body.slice(frontMatter[0].length);
+  }
+
+  if (extension === ".rst") {
+    body = rstToMarkdown(body);
+  } else if (extension === ".mdx") {
+    body = stripMdx(body);
+  }
+
+  if (!title) {
+    const heading = body.match(/^#\s+(.+)$/m);
+    title = heading ? heading[1].trim() : "";
+  }
+
+  return { title, content: body.replace(/\n{3,}/g, "\n\n").trim() };
+}
+
+/**
+ * Removes MDX-only syntax: import/export statements and lines that are just
+ * component tags (`<Tabs>`, `</TabItem>`, `<Callout type="info" />`).
+ * Text inside components is kept. Code fences are left alone.
+ */
+function stripMdx(body: string): string {
+  let inFence = false;
+
+  return body
+    .split("\n")
+    .filter((line) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        return true;
+      }
+      if (inFence) return true;
+      if (/^(import|export)\s/.test(line)) return false;
+      return !/^\s*<\/?[A-Z][\w.]*(\s[^>]*)?\/?>\s*$/.test(line);
+    })
+    .join("\n");
+}
+
+/**
+ * Converts the parts of reStructuredText that matter for chunking to Markdown:
+ * section titles become # headings (levels follow the order adornments first
+ * appear in, as in RST itself) and code-block directives become fenced code.
+ */
+function rstToMarkdown(body: string): string {
+  const lines = body.split(/\r?\n/);
+  const output: string[] = [];
+  const adornmentLevels: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const next = lines[i + 1] ?? "";
+
+    // Overlined title: ====\nTitle\n====
+    const overline = line.match(RST_ADORNMENT);
+    if (overline && lines[i + 1]?.trim() && lines[i + 2]?.match(RST_ADORNMENT)) {
+      output.push(`${"#".repeat(getLevel(`over${overline[1]}`))} ${lines[i + 1].trim()}`);
+      i += 2;
+      continue;
+    }
+
+    // Underlined title: Title\n-----
+    const underline = next.match(RST_ADORNMENT);
+    if (line.trim() && !line.startsWith(" ") && underline && next.trim().length >= line.trim().length) {
+      output.push(`${"#".repeat(getLevel(underline[1]))} ${line.trim()}`);
+      i += 1;
+      continue;
+    }
+
+    // .. code-block:: python (plus options), followed by an indented block
+    const directive = line.match(/^(\s*)\.\. (?:code-block|code|sourcecode)::\s*(\S*)/);
+    if (directive) {
+      const baseIndent = directive[1].length;
+      const code: string[] = [];
+      let j = i + 1;
+
+      // Skip directive options like :linenos:
+      while (j < lines.length && /^\s+:[\w-]+:/.test(lines[j])) j++;
+
+      for (; j < lines.length; j++) {
+        const codeLine = lines[j];
+        if (codeLine.trim() && codeLine.search(/\S/) <= baseIndent) break;
+        code.push(codeLine);
+      }
+
+      const indent = Math.min(...code.filter((l) => l.trim()).map((l) => l.search(/\S/)));
+      const dedented = code.map((l) => l.slice(Number.isFinite(indent) ? indent : 0));
+      output.push(`\`\`\`${directive[2]}`, ...trimBlankLines(dedented), "```", "");
+      i = j - 1;
+      continue;
+    }
+
+    output.push(line);
+  }
+
+  return output.join("\n");
+
+  function getLevel(style: string): number {
+    if (!adornmentLevels.includes(style)) {
+      adornmentLevels.push(style);
+    }
+    return Math.min(adornmentLevels.indexOf(style) + 1, 6);
+  }
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+}
@@ -0,0 +1,264 @@
+import type { Cheerio, CheerioAPI } from "cheerio";
+import { AnyNode, Element, isTag, isText } from "domhandler";
+
+// Elements that never carry documentation content
+const SKIPPED_TAGS = new Set([
+  "script", "style", "noscript", "template", "svg", "canvas", "iframe",
+  "button", "input", "select", "textarea", "form",
+]);
+
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "details", "dialog", "div", "dl", "fieldset",
+  "figcaption", "figure", "footer", "header", "main", "nav", "section", "summary",
+]);
+
+// Code blocks are swapped for placeholders while we normalize whitespace,
+// so their indentation survives untouched.
+const CODE_PLACEHOLDER = "\u0000CODE";
+
+interface RenderContext {
+  $: CheerioAPI;
+  codeBlocks: string[];
+  // Table cells hold a single line, so code blocks in them become inline code
+  inTable?: boolean;
+}
+
+/**
+ * Converts a cheerio selection to Markdown, keeping the structure that matters
+ * for docs: heading levels, fenced code blocks with language hints, lists,
+ * tables, blockquotes and link text.
+ */
+export function toMarkdown($: CheerioAPI, selection: Cheerio<AnyNode>): string {
+  const ctx: RenderContext = { $, codeBlocks: [] };
+  const markdown = renderFragment(selection.toArray(), ctx);
+
+  // Continue restored code blocks with the prefix of the line they start on:
+  // list markers become indentation, blockquote markers are repeated
+  return markdown.replace(
+    new RegExp(`^(.*)${CODE_PLACEHOLDER}(\\d+)`, "gm"),
+    (_, prefix: string, index: string) => {
+      const continuation = prefix.replace(/[^>\s]/g, " ");
+      return prefix + ctx.codeBlocks[parseInt(index, 10)].split("\n").join(`\n${continuation}`);
+    }
+  );
+}
+
+/**
+ * Renders nodes and normalizes the whitespace between blocks.
+ */
+function renderFragment(nodes: AnyNode[], ctx: RenderContext): string {
+  return nodes
+    .map((node) => renderNode(node, ctx))
+    .join("")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+$/, "").replace(/^ (?=\S)/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function renderNode(node: AnyNode, ctx: RenderContext): string {
+  if (isText(node)) {
+    return node.data.replace(/\s+/g, " ");
+  }
+  if (!isTag(node)) {
+    return "";
+  }
+
+  const tag = node.tagName.toLowerCase();
+  if (SKIPPED_TAGS.has(tag)) {
+    return "";
+  }
+
+  const headingMatch = tag.match(/^h([1-6])$/);
+  if (headingMatch) {
+    const text = renderInline(node, ctx);
+    if (!text) return "";
+    // Keep the heading's anchor as a {#id} attribute, so chunks can link to their section
+    const id = getHeadingId(node, ctx);
+    return block(`${"#".repeat(parseInt(headingMatch[1], 10))} ${text}${id ? ` {#${id}}` : ""}`);
+  }
+
+  switch (tag) {
+    case "pre":
+      return block(renderCodeBlock(node, ctx));
+    case "p":
+      return block(renderChildren(node, ctx));
+    case "br":
+      return "\n";
+    case "hr":
+      return block("---");
+    case "ul":
+    case "ol":
+      return block(renderList(node, ctx));
+    case "table":
+      return block(renderTable(node, ctx));
+    case "blockquote":
+      return block(
+        renderFragment(node.children, ctx)
+          .split("\n")
+          .map((line) => `> ${line}`)
+          .join("\n")
+      );
+    case "dt":
+      return block(`**${renderInline(node, ctx)}**`);
+    case "dd":
+      return block(renderChildren(node, ctx));
+    case "code": {
+      const text = ctx.$(node).text().replace(/\s+/g, " ");
+      return text.trim() ? `\`${text}\`` : "";
+    }
+    case "strong":
+    case "b": {
+      const text = renderInline(node, ctx);
+      return text ? `**${text}**` : "";
+    }
+    case "em":
+    case "i": {
+      const text = renderInline(node, ctx);
+      return text ? `*${text}*` : "";
+    }
+    case "a": {
+      // Drop heading permalinks ("#", "¶") - they're just noise in the text
+      const text = renderChildren(node, ctx);
+      const className = node.attribs.class || "";
+      if (/\b(anchor|headerlink|hash-link|permalink)\b/.test(className) || /^\s*[#¶§🔗]\s*$/u.test(text)) {
+        return "";
+      }
+      return text;
+    }
+    case "img": {
+      const alt = node.attribs.alt?.trim();
+      return alt ? `[${alt}]` : "";
+    }
+  }
+
+  const children = renderChildren(node, ctx);
+  return BLOCK_TAGS.has(tag) ? block(children) : children;
+}
+
+/**
+ * Finds the fragment that links to a heading: its own id, an anchor inside it
+ * (`<a id>`, `<a name>` or a permalink's `href="#..."`), or the id of the
+ * section it heads, as Sphinx writes them.
+ */
+function getHeadingId(heading: Element, ctx: RenderContext): string | null {
+  const $heading = ctx.$(heading);
+  const permalink = $heading.find("a[href^='#']").last().attr("href")?.slice(1);
+  const parent = heading.parent;
+  const headsSection =
+    parent &&
+    isTag(parent) &&
+    (parent.tagName === "section" || /\bsection\b/.test(parent.attribs.class || "")) &&
+    ctx.$(parent).children(":header").first()[0] === heading;
+  const sectionId = headsSection ? parent.attribs.id : undefined;
+
+  const id =
+    heading.attribs.id ||
+    $heading.find("[id]").first().attr("id") ||
+    $heading.find("a[name]").first().attr("name") ||
+    permalink ||
+    sectionId;
+  return id && !/[\s{}]/.test(id) ? id : null;
+}
+
+function renderChildren(node: Element, ctx: RenderContext): string {
+  return node.children.map((child) => renderNode(child, ctx)).join("");
+}
+
+/**
+ * Renders an element's content on a single line (headings, table cells).
+ */
+function renderInline(node: Element, ctx: RenderContext): string {
+  return renderChildren(node, ctx).replace(/\s+/g, " ").trim();
+}
+
+function block(content: string): string {
+  const trimmed = content.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : "";
+}
+
+function renderCodeBlock(pre: Element, ctx: RenderContext): string {
+  const code = ctx.$(pre).find("code").first();
+  const text = (code.length > 0 ? code : ctx.$(pre)).text().replace(/^\n+|\s+$/g, "");
+  if (!text) return "";
+
+  if (ctx.inTable) {
+    return `\`${text.replace(/\s+/g, " ")}\``;
+  }
+
+  const language = detectLanguage(pre) || (code.length > 0 ? detectLanguage(code.get(0)!) : "");
+
+  // Use a longer fence if the code itself contains ```
+  const fence = text.includes("```") ? "````" : "```";
+  ctx.codeBlocks.push(`${fence}${language}\n${text}\n${fence}`);
+  return `${CODE_PLACEHOLDER}${ctx.codeBlocks.length - 1}`;
+}
+
+/**
+ * Finds a code block's language from the conventions used by common highlighters:
+ * language-x / lang-x classes (Prism, highlight.js, Shiki), data-language attributes,
+ * and highlight-x wrappers (Sphinx).
+ */
+function detectLanguage(node: Element | undefined): string {
+  for (let current = node, level = 0; current && level < 3; level++) {
+    const dataLanguage = current.attribs["data-language"] || current.attribs["data-lang"];
+    if (dataLanguage) return dataLanguage.trim();
+
+    const className = current.attribs.class || "";
+    const match = className.match(/(?:^|\s)(?:language|lang|highlight-source|highlight)-([\w+#-]+)/);
+    if (match && match[1] !== "default") return match[1];
+
+    current = current.parent && isTag(current.parent) ? current.parent : undefined;
+  }
+  return "";
+}
+
+function renderList(list: Element, ctx: RenderContext): string {
+  const ordered = list.tagName.toLowerCase() === "ol";
+  const start = parseInt(list.attribs.start || "1", 10);
+  const items = list.children.filter(
+    (child): child is Element => isTag(child) && child.tagName.toLowerCase() === "li"
+  );
+
+  return items
+    .map((item, index) => {
+      const marker = ordered ? `${start + index}. ` : "- ";
+      const content = renderFragment(item.children, ctx)
+        .replace(/\n{2,}/g, "\n")
+        .split("\n")
+        .map((line, lineIndex) => (lineIndex === 0 ? line : `${" ".repeat(marker.length)}${line}`))
+        .join("\n");
+      return `${marker}${content}`;
+    })
+    .join("\n");
+}
+
+function renderTable(table: Element, ctx: RenderContext): string {
+  const { $ } = ctx;
+  const cellCtx = { ...ctx, inTable: true };
+  const rows = $(table)
+    .find("tr")
+    .toArray()
+    // Skip rows that belong to tables nested inside cells
+    .filter((row) => $(row).closest("table").get(0) === table)
+    .map((row) =>
+      $(row)
+        .children("th, td")
+        .toArray()
+        .map((cell) => renderInline(cell, cellCtx).replace(/\|/g, "\\|"))
+    )
+    .filter((cells) => cells.length > 0);
+
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const formatRow = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] || "").join(" | ")} |`;
+
+  return [
+    formatRow(rows[0]),
+    `| ${Array(width).fill("---").join(" | ")} |`,
+    ...rows.slice(1).map(formatRow),
+  ].join("\n");
+}
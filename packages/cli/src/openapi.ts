@@ -0,0 +1,504 @@
+import fs from "fs";
+import { fileURLToPath } from "url";
+import YAML from "yaml";
+import { CrawledDocument, CrawlResult } from "./crawl.js";
+import { fetchWithRetry } from "./http.js";
+import { AuthOptions, createHeadersFor } from "./auth.js";
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"] as const;
+
+type HttpMethod = (typeof HTTP_METHODS)[number];
+
+/**
+ * The parts of an OpenAPI 3 or Swagger 2 spec that get rendered. Specs come
+ * from anywhere, so every field is optional.
+ */
+interface Spec {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string; version?: string; description?: string };
+  servers?: Array<{ url?: string }>;
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  paths?: Record<string, PathItem>;
+  components?: { securitySchemes?: Record<string, SecurityScheme> };
+  securityDefinitions?: Record<string, SecurityScheme>;
+}
+
+interface Reference {
+  $ref?: string;
+}
+
+interface SecurityScheme {
+  type?: string;
+  scheme?: string;
+  in?: string;
+  name?: string;
+  description?: string;
+}
+
+type PathItem = Reference & { parameters?: Parameter[] } & { [M in HttpMethod]?: Operation };
+
+interface Operation {
+  summary?: string;
+  operationId?: string;
+  description?: string;
+  deprecated?: boolean;
+  tags?: string[];
+  parameters?: Parameter[];
+  requestBody?: RequestBody;
+  responses?: Record<string, Response>;
+}
+
+interface RequestBody extends Reference {
+  description?: string;
+  required?: boolean;
+  content?: Record<string, MediaType>;
+}
+
+interface Response extends Reference {
+  description?: string;
+  content?: Record<string, MediaType>;
+  // Swagger 2
+  schema?: Schema;
+  examples?: Record<string, unknown>;
+}
+
+interface MediaType {
+  schema?: Schema;
+  example?: unknown;
+  examples?: Record<string, Example>;
+}
+
+interface Example extends Reference {
+  summary?: string;
+  value?: unknown;
+}
+
+// The type fields a schema shares with Swagger 2's non-body parameters
+interface TypeFields extends Reference {
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  items?: Schema;
+}
+
+interface Schema extends TypeFields {
+  properties?: Record<string, Schema>;
+  required?: string[];
+  allOf?: Schema[];
+  oneOf?: Schema[];
+  anyOf?: Schema[];
+  description?: string;
+  readOnly?: boolean;
+  deprecated?: boolean;
+  example?: unknown;
+}
+
+interface Parameter extends TypeFields {
+  name?: string;
+  in?: string;
+  description?: string;
+  required?: boolean;
+  schema?: Schema;
+  "x-example"?: unknown;
+}
+
+// Anything describeType can name: a schema or a Swagger 2 parameter
+type Typed = TypeFields & Pick<Schema, "properties" | "allOf" | "oneOf" | "anyOf">;
+
+// Deep or recursive schemas are cut off here to keep documents readable
+const MAX_SCHEMA_DEPTH = 6;
+const MAX_EXAMPLE_LENGTH = 3000;
+
+/**
+ * Loads an OpenAPI 3 or Swagger 2 spec (JSON or YAML, from a URL or local file)
+ * and turns it into one document per operation: method, path, summary,
+ * parameters, request and response schemas, and examples.
+ * An overview document covers the API's description, servers and auth schemes.
+ *
+ * Each operation's URL is the spec location plus a JSON pointer to the
+ * operation (`openapi.yaml#/paths/~1users~1{id}/get`), which stays stable
+ * across updates.
+ *
+ * Specs behind auth are fetched with the same headers and cookies as crawls.
+ */
+export async function loadOpenApiSpec(location: string, auth: AuthOptions = {}): Promise<CrawlResult> {
+  const spec = await readSpec(location, auth);
+
+  if (!spec.openapi && !spec.swagger) {
+    throw new Error(`${location} is not an OpenAPI or Swagger spec`);
+  }
+
+  const resolver = new RefResolver(spec);
+  const documents: CrawledDocument[] = [];
+  const apiTitle = spec.info?.title || "API";
+
+  const overview = renderOverview(spec);
+  if (overview) {
+    documents.push({ url: location, title: `${apiTitle} overview`, content: overview });
+  }
+
+  for (const [pathName, rawPathItem] of Object.entries(spec.paths || {})) {
+    const pathItem = resolver.resolve(rawPathItem);
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+
+      const pointer = `/paths/${escapePointer(pathName)}/${method}`;
+      const summary = operation.summary || operation.operationId || "";
+
+      documents.push({
+        url: `${location}#${pointer}`,
+        title: `${method.toUpperCase()} ${pathName}${summary ? ` - ${summary}` : ""}`,
+        content: renderOperation(spec, resolver, pathName, method, pathItem, operation),
+      });
+    }
+  }
+
+  return { documents, skipped: [], pending: [], visited: [location] };
+}
+
+async function readSpec(location: string, auth: AuthOptions): Promise<Spec> {
+  let text: string;
+
+  if (/^https?:\/\//i.test(location)) {
+    const response = await fetchWithRetry(location, { headers: createHeadersFor(auth)(location) });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch spec: HTTP ${response.status}`);
+    }
+    text = await response.text();
+  } else {
+    const filePath = location.startsWith("file://") ? fileURLToPath(location) : location;
+    text = fs.readFileSync(filePath, "utf-8");
+  }
+
+  // YAML is a superset of JSON, so this handles both
+  const spec: unknown = YAML.parse(text);
+  if (!isObject(spec)) {
+    throw new Error(`${location} is not an OpenAPI or Swagger spec`);
+  }
+  return spec as Spec;
+}
+
+/**
+ * Resolves internal $refs (`#/components/schemas/User`, `#/definitions/User`).
+ * External refs are left in place and shown by name.
+ */
+class RefResolver {
+  constructor(private spec: Spec) {}
+
+  // Assumes a ref points at the same kind of node as the one it stands in for
+  resolve<T extends Reference | undefined>(value: T, seen = new Set<string>()): T {
+    let current = value;
+    while (typeof current?.$ref === "string" && current.$ref.startsWith("#/")) {
+      const ref = current.$ref;
+      if (seen.has(ref)) break;
+      seen.add(ref);
+      const target = this.lookup(ref);
+      if (!isObject(target)) break;
+      current = target as T;
+      if (current?.$ref === ref) break;
+    }
+    return current;
+  }
+
+  private lookup(ref: string): unknown {
+    return ref
+      .slice(2)
+      .split("/")
+      .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce<unknown>((node, key) => (isObject(node) ? node[key] : undefined), this.spec);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function renderOverview(spec: Spec): string {
+  const lines: string[] = [];
+  const info = spec.info || {};
+
+  lines.push(`# ${info.title || "API"}${info.version ? ` (version ${info.version})` : ""}`);
+  if (info.description) lines.push("", info.description.trim());
+
+  const servers = getServerUrls(spec);
+  if (servers.length > 0) {
+    lines.push("", "## Servers", "", ...servers.map((url) => `- ${url}`));
+  }
+
+  const schemes = spec.components?.securitySchemes || spec.securityDefinitions || {};
+  const schemeNames = Object.keys(schemes);
+  if (schemeNames.length > 0) {
+    lines.push("", "## Authentication", "");
+    for (const name of schemeNames) {
+      const scheme = schemes[name];
+      const details = [scheme.type, scheme.scheme, scheme.in && `in ${scheme.in}`, scheme.name]
+        .filter(Boolean)
+        .join(", ");
+      lines.push(`- **${name}** (${details})${scheme.description ? `: ${scheme.description.trim()}` : ""}`);
+    }
+  }
+
+  return lines.length > 1 ? lines.join("\n") : "";
+}
+
+function getServerUrls(spec: Spec): string[] {
+  if (Array.isArray(spec.servers)) {
+    return spec.servers.map((server) => server.url).filter((url): url is string => Boolean(url));
+  }
+  if (spec.host) {
+    const scheme = spec.schemes?.[0] || "https";
+    return [`${scheme}://${spec.host}${spec.basePath || ""}`];
+  }
+  return [];
+}
+
+function renderOperation(
+  spec: Spec,
+  resolver: RefResolver,
+  pathName: string,
+  method: HttpMethod,
+  pathItem: PathItem,
+  operation: Operation
+): string {
+  const lines: string[] = [`# ${method.toUpperCase()} ${pathName}`];
+
+  if (operation.summary) lines.push("", operation.summary.trim());
+  if (operation.description) lines.push("", operation.description.trim());
+  if (operation.deprecated) lines.push("", "**Deprecated.**");
+
+  const meta: string[] = [];
+  if (operation.operationId) meta.push(`Operation ID: \`${operation.operationId}\``);
+  if (operation.tags?.length) meta.push(`Tags: ${operation.tags.join(", ")}`);
+  const servers = getServerUrls(spec);
+  if (servers.length > 0) meta.push(`Base URL: ${servers[0]}`);
+  if (meta.length > 0) lines.push("", ...meta.map((line) => `- ${line}`));
+
+  // Path-level parameters apply to every operation unless overridden
+  const parameters = new Map<string, Parameter>();
+  for (const raw of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+    const param = resolver.resolve(raw);
+    parameters.set(`${param.in}:${param.name}`, param);
+  }
+
+  const bodyParam = [...parameters.values()].find((p) => p.in === "body");
+  const formParams = [...parameters.values()].filter((p) => p.in === "formData");
+  const regularParams = [...parameters.values()].filter((p) => p.in !== "body" && p.in !== "formData");
+
+  if (regularParams.length > 0) {
+    lines.push("", "## Parameters", "", "| Name | In | Type | Required | Description |", "| --- | --- | --- | --- | --- |");
+    for (const param of regularParams) {
+      const schema = resolver.resolve(param.schema || param);
+      lines.push(
+        `| ${param.name} | ${param.in} | ${describeType(schema, resolver)} | ${param.required ? "yes" : "no"} | ${tableCell(param.description)} |`
+      );
+    }
+  }
+
+  // Request body: OpenAPI 3 requestBody, or Swagger 2 body/formData parameters
+  const requestBody = operation.requestBody && resolver.resolve(operation.requestBody);
+  if (requestBody?.content) {
+    lines.push("", "## Request body");
+    if (requestBody.description) lines.push("", requestBody.description.trim());
+    if (requestBody.required) lines.push("", "Required.");
+    lines.push(...renderContent(requestBody.content, resolver));
+  } else if (bodyParam) {
+    lines.push("", "## Request body");
+    if (bodyParam.description) lines.push("", bodyParam.description.trim());
+    lines.push("", ...renderSchema(bodyParam.schema ?? {}, resolver));
+    const example = bodyParam["x-example"] ?? resolver.resolve(bodyParam.schema)?.example;
+    if (example !== undefined) lines.push(...renderExample(example));
+  } else if (formParams.length > 0) {
+    lines.push("", "## Request body", "", "Form fields:", "");
+    for (const param of formParams) {
+      lines.push(`- \`${param.name}\` (${describeType(param, resolver)}${param.required ? ", required" : ""})${param.description ? `: ${param.description}` : ""}`);
+    }
+  }
+
+  const responses = Object.entries(operation.responses || {});
+  if (responses.length > 0) {
+    lines.push("", "## Responses");
+    for (const [status, rawResponse] of responses) {
+      const response = resolver.resolve(rawResponse);
+      lines.push("", `### ${status}${response.description ? ` - ${response.description.trim()}` : ""}`);
+
+      if (response.content) {
+        lines.push(...renderContent(response.content, resolver));
+      } else if (response.schema) {
+        // Swagger 2
+        lines.push("", ...renderSchema(response.schema, resolver));
+        for (const example of Object.values(response.examples || {})) {
+          lines.push(...renderExample(example));
+        }
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Renders an OpenAPI 3 content map (media type -> schema and examples).
+ */
+function renderContent(content: Record<string, MediaType>, resolver: RefResolver): string[] {
+  const lines: string[] = [];
+
+  for (const [mediaType, media] of Object.entries(content)) {
+    lines.push("", `Content type: \`${mediaType}\``);
+    if (media.schema) {
+      lines.push("", ...renderSchema(media.schema, resolver));
+    }
+
+    const schemaExample = resolver.resolve(media.schema)?.example;
+    if (media.example !== undefined) {
+      lines.push(...renderExample(media.example));
+    } else if (media.examples) {
+      for (const [name, rawExample] of Object.entries(media.examples)) {
+        const example = resolver.resolve(rawExample);
+        if (example.value !== undefined) {
+          lines.push(...renderExample(example.value, example.summary || name));
+        }
+      }
+    } else if (schemaExample !== undefined) {
+      lines.push(...renderExample(schemaExample));
+    }
+  }
+
+  return lines;
+}
+
+function renderExample(example: unknown, label?: string): string[] {
+  let text = typeof example === "string" ? example : JSON.stringify(example, null, 2);
+  if (text.length > MAX_EXAMPLE_LENGTH) {
+    text = `${text.slice(0, MAX_EXAMPLE_LENGTH)}\n...`;
+  }
+  const language = typeof example === "string" ? "" : "json";
+  return ["", label ? `Example (${label}):` : "Example:", "", `\`\`\`${language}`, text, "```"];
+}
+
+/**
+ * Renders a schema as a nested field list:
+ * `- name (string, required): description`.
+ */
+function renderSchema(rawSchema: Schema, resolver: RefResolver): string[] {
+  const schema = resolver.resolve(rawSchema);
+  const lines = [`Schema: ${describeType(schema, resolver, rawSchema)}`];
+  lines.push(...renderFields(schema, resolver, 0, new Set()));
+  return lines;
+}
+
+function renderFields(
+  rawSchema: Schema,
+  resolver: RefResolver,
+  depth: number,
+  seen: Set<Schema>
+): string[] {
+  const schema = mergeAllOf(resolver.resolve(rawSchema), resolver);
+  if (!schema || depth >= MAX_SCHEMA_DEPTH || seen.has(schema)) return [];
+
+  const nextSeen = new Set(seen).add(schema);
+
+  if (schema.type === "array" || schema.items) {
+    return renderFields(schema.items || {}, resolver, depth, nextSeen);
+  }
+
+  const lines: string[] = [];
+  const indent = "  ".repeat(depth);
+  const required = new Set<string>(schema.required || []);
+
+  for (const [name, rawProperty] of Object.entries(schema.properties || {})) {
+    const property = resolver.resolve(rawProperty);
+    const details = [describeType(property, resolver, rawProperty)];
+    if (required.has(name)) details.push("required");
+    if (property.readOnly) details.push("read-only");
+    if (property.deprecated) details.push("deprecated");
+
+    const description = property.description ? `: ${property.description.replace(/\s+/g, " ").trim()}` : "";
+    lines.push(`${indent}- \`${name}\` (${details.join(", ")})${description}`);
+    lines.push(...renderFields(property, resolver, depth + 1, nextSeen));
+  }
+
+  for (const key of ["oneOf", "anyOf"] as const) {
+    const options = schema[key];
+    if (!Array.isArray(options)) continue;
+    lines.push(`${indent}- ${key === "oneOf" ? "One of" : "Any of"}:`);
+    for (const option of options) {
+      lines.push(`${indent}  - ${describeType(resolver.resolve(option), resolver, option)}`);
+      lines.push(...renderFields(option, resolver, depth + 2, nextSeen));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Flattens allOf compositions into a single object schema.
+ */
+function mergeAllOf(schema: Schema, resolver: RefResolver): Schema {
+  if (!schema || !Array.isArray(schema.allOf)) return schema;
+
+  const properties = { ...schema.properties };
+  const required = [...(schema.required || [])];
+  const merged: Schema = { ...schema, properties, required };
+  delete merged.allOf;
+
+  for (const part of schema.allOf) {
+    const resolved = mergeAllOf(resolver.resolve(part), resolver);
+    Object.assign(properties, resolved.properties);
+    required.push(...(resolved.required || []));
+    merged.type = merged.type || resolved.type;
+    merged.description = merged.description || resolved.description;
+  }
+
+  return merged;
+}
+
+/**
+ * Describes a schema's type in a few words: `string (date-time)`, `array of User`,
+ * `one of: "asc", "desc"`.
+ */
+function describeType(
+  schema: Typed | undefined,
+  resolver: RefResolver,
+  raw?: Reference,
+  seen = new Set<string>()
+): string {
+  const ref = typeof raw?.$ref === "string" ? raw.$ref : undefined;
+  const refName = ref?.split("/").pop();
+  // A recursive schema (a tree whose items are trees) is named, not expanded again
+  if (ref && seen.has(ref)) return refName!;
+  if (!schema) return "any";
+
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.map((value) => JSON.stringify(value)).join(", ");
+    return `${schema.type || "enum"}, one of: ${values}`;
+  }
+
+  if (schema.type === "array" || schema.items) {
+    const items: Schema = schema.items || {};
+    const nextSeen = ref ? new Set(seen).add(ref) : seen;
+    return `array of ${describeType(resolver.resolve(items), resolver, items, nextSeen)}`;
+  }
+
+  if (refName) return refName;
+
+  const type = Array.isArray(schema.type) ? schema.type.join(" | ") : schema.type;
+  if (type) {
+    return schema.format ? `${type} (${schema.format})` : type;
+  }
+  if (schema.oneOf || schema.anyOf) return schema.oneOf ? "one of" : "any of";
+  if (schema.properties || schema.allOf) return "object";
+  return "any";
+}
+
+function tableCell(text: string | undefined): string {
+  return (text || "").replace(/\s+/g, " ").replace(/\|/g, "\\|").trim();
+}
@@ -1,26 +1,80 @@
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
 import { chromium, Browser, Page } from "playwright";
-import { CrawledDocument } from "./crawl.js";
+import {
+  CrawledDocument,
+  CrawlResult,
+  FrontierEntry,
+  ResumeState,
+  SkippedUrl,
+} from "./crawl.js";
+import { fetchRobotsRules } from "./robots.js";
+import { createUrlFilter, UrlFilterOptions } from "./url-filter.js";
+import { extractContent, extractTitle, ExtractOptions } from "./extract.js";
+import { dedupeDocuments, isHashRoute, normalizeUrl, resolveCanonicalUrl } from "./canonical.js";
+import { AuthOptions, createHeadersFor, readCookieFile } from "./auth.js";
+import { sleep } from "./utils.js";
 
-interface PlaywrightOptions {
+/**
+ * How pages are rendered before extraction, remembered per source.
+ */
+export interface RenderOptions {
+  waitFor?: string; // selector to wait for instead of network idle
+  clickSelectors?: string[]; // tabs, accordions, "show more" toggles to click before extraction
+  hashRoutes?: boolean; // crawl `#/route` links of single-page apps as pages
+  blockResources?: boolean; // skip images, fonts, media and analytics
+}
+
+interface PlaywrightOptions extends UrlFilterOptions, AuthOptions, RenderOptions, ExtractOptions {
   maxDepth: number;
   maxPages: number;
+  ignoreRobots?: boolean;
+  resume?: ResumeState;
+  signal?: AbortSignal;
 }
 
+const PAGE_TIMEOUT_MS = 30000;
+const CLICK_TIMEOUT_MS = 2000;
+const CLICK_SETTLE_MS = 250;
+
+const BLOCKED_RESOURCE_TYPES = new Set(["image", "font", "media"]);
+const ANALYTICS_HOST =
+  /(^|\.)(google-analytics\.com|googletagmanager\.com|doubleclick\.net|segment\.(io|com)|hotjar\.com|mixpanel\.com|amplitude\.com|heap(analytics)?\.io|fullstory\.com|plausible\.io|clarity\.ms|intercom\.io)$/i;
+
 /**
  * Crawls a URL using Playwright for JavaScript-rendered sites.
  * Slower than cheerio but handles dynamic content. No API limits.
+ * Honors robots.txt Disallow rules and Crawl-delay unless ignoreRobots is set.
+ * Applies the same include/exclude/path scoping, content extraction,
+ * canonical URLs and duplicate detection as the default crawler.
+ * Like crawlUrl, returns the unvisited queue as `pending` when it stops early.
+ *
+ * For private docs, the browser context starts from a saved storage state
+ * (e.g. after an SSO login) and/or a cookie file, and auth headers are added
+ * to requests to the docs site only - never to third-party hosts.
+ *
+ * Pages load until the network is idle, or until the waitFor selector shows up.
+ * Elements matching clickSelectors are then clicked in order, so content behind
+ * tabs and toggles is rendered; for a tab group, the last tab clicked stays open.
+ * With hashRoutes, `#/route` links are crawled as pages of their own instead of
+ * being treated as anchors.
  */
 export async function crawlWithPlaywright(
   startUrl: string,
   options: PlaywrightOptions
-): Promise<CrawledDocument[]> {
-  const { maxDepth, maxPages } = options;
+): Promise<CrawlResult> {
+  const { maxDepth, maxPages, ignoreRobots, resume, signal, waitFor, clickSelectors, hashRoutes } = options;
+  const normalize = (url: string) => normalizeUrl(url, hashRoutes);
   const baseUrl = new URL(startUrl);
-  const visited = new Set<string>();
+  const visited = new Set<string>(resume?.visited);
   const documents: CrawledDocument[] = [];
+  const skipped: SkippedUrl[] = [];
+  const robots = await fetchRobotsRules(baseUrl.origin);
+  const urlFilter = createUrlFilter(startUrl, options);
+  const crawlDelayMs = ignoreRobots ? 0 : (robots.crawlDelay || 0) * 1000;
+  let pageCount = 0;
 
-  // Queue entries: [url, depth]
-  const queue: [string, number][] = [[startUrl, 0]];
+  const queue: FrontierEntry[] = resume ? [...resume.pending] : [{ url: startUrl, depth: 0 }];
 
   let browser: Browser | null = null;
 
@@ -28,80 +82,111 @@ export async function crawlWithPlaywright(
     browser = await chromium.launch({ headless: true });
     const context = await browser.newContext({
       userAgent: "docslurp/1.0 (documentation crawler)",
+      storageState: options.storageState,
     });
 
-    while (queue.length > 0 && documents.length < maxPages) {
-      const [url, depth] = queue.shift()!;
+    if (options.cookieFile) {
+      await context.addCookies(readCookieFile(options.cookieFile));
+    }
+
+    const headersFor = options.headers?.length ? createHeadersFor({ headers: options.headers }) : null;
+    if (headersFor || options.blockResources) {
+      await context.route("**/*", (route) => {
+        const request = route.request();
+        const requestUrl = new URL(request.url());
+        if (
+          options.blockResources &&
+          (BLOCKED_RESOURCE_TYPES.has(request.resourceType()) || ANALYTICS_HOST.test(requestUrl.hostname))
+        ) {
+          return route.abort();
+        }
+        if (!headersFor || requestUrl.origin !== baseUrl.origin) {
+          return route.continue();
+        }
+        return route.continue({ headers: { ...request.headers(), ...headersFor(request.url()) } });
+      });
+    }
+
+    while (queue.length > 0 && documents.length < maxPages && !signal?.aborted) {
+      const { url, depth } = queue.shift()!;
 
       // Normalize URL
-      const normalizedUrl = normalizeUrl(url);
+      const normalizedUrl = normalize(url);
       if (visited.has(normalizedUrl)) continue;
       visited.add(normalizedUrl);
 
+      if (!ignoreRobots && !robots.isAllowed(url)) {
+        skipped.push({ url: normalizedUrl, reason: "disallowed by robots.txt" });
+        continue;
+      }
+
+      // Respect Crawl-delay between page loads
+      if (crawlDelayMs > 0 && pageCount > 0) {
+        await sleep(crawlDelayMs);
+      }
+      pageCount++;
+
+      const page = await context.newPage();
       try {
-        const page = await context.newPage();
-        await page.goto(url, { waitUntil: "networkidle", timeout: 30000 });
-
-        // Wait a bit for any lazy-loaded content
-        await page.waitForTimeout(1000);
-
-        // Extract content
-        const result = await page.evaluate(() => {
-          // Remove nav, footer, scripts, etc.
-          const elementsToRemove = document.querySelectorAll(
-            "nav, footer, header, script, style, aside, .sidebar, .navigation, .menu, .ads, .advertisement"
-          );
-          elementsToRemove.forEach((el) => el.remove());
-
-          // Get main content
-          const main =
-            document.querySelector("main") ||
-            document.querySelector("article") ||
-            document.querySelector('[role="main"]') ||
-            document.body;
-
-          return {
-            title: document.title || "Untitled",
-            content: main?.textContent?.trim() || "",
-          };
-        });
+        await page.goto(url, { waitUntil: waitFor ? "domcontentloaded" : "networkidle", timeout: PAGE_TIMEOUT_MS });
+
+        if (waitFor) {
+          try {
+            await page.waitForSelector(waitFor, { timeout: PAGE_TIMEOUT_MS });
+          } catch {
+            skipped.push({ url: normalizedUrl, reason: `${waitFor} never appeared` });
+            continue;
+          }
+        } else {
+          // Wait a bit for any lazy-loaded content
+          await page.waitForTimeout(1000);
+        }
+
+        if (clickSelectors?.length) {
+          await clickAll(page, clickSelectors);
+        }
+
+        // Extract the rendered page with the same extractor the default crawler uses
+        const $ = cheerio.load(await page.content());
+        const canonicalHref = $("link[rel='canonical']").attr("href");
+        // Links come from the whole page: sidebars and menus are removed from the content, not the crawl
+        const links = depth < maxDepth ? getLinks($, page.url(), baseUrl.hostname) : [];
+        const title = extractTitle($) || "Untitled";
+        const content = extractContent($, options);
+
+        // Index the page under its canonical URL so aliases collapse into one page.
+        // Hash routes share one HTML document, so its canonical says nothing about the route.
+        const canonicalUrl = hashRoutes && isHashRoute(url) ? url : resolveCanonicalUrl(canonicalHref, url);
+        const pageUrl = canonicalUrl !== url && !urlFilter(canonicalUrl) ? canonicalUrl : normalizedUrl;
+        visited.add(normalize(pageUrl));
 
         // Skip pages with little content
-        if (result.content.length >= 100) {
+        if (content.length >= 100) {
           documents.push({
-            url: normalizedUrl,
-            title: result.title,
-            content: cleanText(result.content),
+            url: pageUrl,
+            title,
+            content,
           });
         }
 
-        // Find links if we haven't hit max depth
-        if (depth < maxDepth) {
-          const links = await page.evaluate((baseHost) => {
-            return Array.from(document.querySelectorAll("a[href]"))
-              .map((a) => (a as HTMLAnchorElement).href)
-              .filter((href) => {
-                try {
-                  const url = new URL(href);
-                  return url.hostname === baseHost && !href.includes("#");
-                } catch {
-                  return false;
-                }
-              });
-          }, baseUrl.hostname);
-
-          for (const link of links) {
-            const normalized = normalizeUrl(link);
-            if (!visited.has(normalized)) {
-              queue.push([link, depth + 1]);
-            }
+        // Queue links if we haven't hit max depth
+        for (const link of links) {
+          const normalized = normalize(link);
+          if (visited.has(normalized)) continue;
+
+          const reason = urlFilter(link);
+          if (reason) {
+            visited.add(normalized);
+            skipped.push({ url: normalized, reason });
+            continue;
           }
+          queue.push({ url: link, depth: depth + 1 });
         }
-
-        await page.close();
       } catch (error) {
         // Skip pages that fail to load
         continue;
+      } finally {
+        await page.close();
       }
     }
   } finally {
@@ -110,24 +195,52 @@ export async function crawlWithPlaywright(
     }
   }
 
-  return documents;
+  // Whatever is still queued (minus URLs queued twice) is the frontier to resume from
+  const pending: FrontierEntry[] = [];
+  const queued = new Set<string>();
+  for (const entry of queue) {
+    const normalized = normalize(entry.url);
+    if (!visited.has(normalized) && !queued.has(normalized)) {
+      queued.add(normalized);
+      pending.push(entry);
+    }
+  }
+
+  const { documents: uniqueDocuments, duplicates } = dedupeDocuments(documents, hashRoutes);
+  return { documents: uniqueDocuments, skipped, pending, visited: [...visited], duplicates };
 }
 
-function normalizeUrl(url: string): string {
-  const parsed = new URL(url);
-  parsed.hash = "";
-  // Remove trailing slash for consistency
-  let path = parsed.pathname;
-  if (path.endsWith("/") && path !== "/") {
-    path = path.slice(0, -1);
-  }
-  parsed.pathname = path;
-  return parsed.toString();
+/**
+ * Gets a page's same-host links, navigation included.
+ */
+function getLinks($: CheerioAPI, pageUrl: string, host: string): string[] {
+  const links: string[] = [];
+  $("a[href]").each((_, element) => {
+    try {
+      const link = new URL($(element).attr("href")!, pageUrl);
+      if (link.hostname === host) {
+        links.push(link.href);
+      }
+    } catch {
+      // Invalid URL, skip
+    }
+  });
+  return links;
 }
 
-function cleanText(text: string): string {
-  return text
-    .replace(/\s+/g, " ")
-    .replace(/\n\s*\n/g, "\n\n")
-    .trim();
+/**
+ * Clicks every element matching each selector, in order. Elements that
+ * can't be clicked (hidden, or removed by an earlier click) are skipped.
+ */
+async function clickAll(page: Page, selectors: string[]): Promise<void> {
+  for (const selector of selectors) {
+    for (const element of await page.$$(selector)) {
+      try {
+        await element.click({ timeout: CLICK_TIMEOUT_MS });
+        await page.waitForTimeout(CLICK_SETTLE_MS);
+      } catch {
+        // Not clickable - leave it
+      }
+    }
+  }
 }
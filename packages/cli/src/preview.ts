@@ -0,0 +1,90 @@
+import chalk from "chalk";
+import { CrawledDocument, CrawlResult } from "./crawl.js";
+import { DocumentChunk, getEmbeddingText } from "./chunk.js";
+import { countTokens } from "./tokens.js";
+import { printCrawlSummary } from "./summary.js";
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  document?: CrawledDocument;
+}
+
+/**
+ * Prints what a crawl found without indexing anything: the pages as a URL tree
+ * with titles and content lengths, the skipped URLs, and the chunks and
+ * embedding tokens indexing would produce.
+ */
+export function printCrawlPreview(result: CrawlResult, chunks: DocumentChunk[]): void {
+  const root: TreeNode = { children: new Map() };
+  for (const document of result.documents) {
+    let node = root;
+    for (const segment of urlSegments(document.url)) {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+    node.document = document;
+  }
+
+  console.log(chalk.bold(`\nPages (${result.documents.length}):\n`));
+  for (const [segment, node] of root.children) {
+    printNode(segment, node, "");
+  }
+  console.log();
+
+  // Unlike a real run, list every skipped URL - that's what a preview is for
+  printCrawlSummary(result, "", Infinity);
+
+  if (result.pending.length > 0) {
+    console.log(chalk.yellow(`${result.pending.length} more URL(s) queued when the crawl stopped (raise --max-pages or --depth to include them)`));
+  }
+
+  const tokens = chunks.reduce((sum, chunk) => sum + countTokens(getEmbeddingText(chunk)), 0);
+  console.log(
+    chalk.bold(
+      `\nEstimated ${chunks.length} chunks from ${result.documents.length} pages ` +
+        `(${tokens.toLocaleString()} tokens to embed)`
+    )
+  );
+}
+
+/**
+ * Splits a URL into tree levels: host, path segments, and the fragment for
+ * pages that live inside one file (OpenAPI operations, llms-full.txt sections).
+ */
+function urlSegments(url: string): string[] {
+  try {
+    const parsed = new URL(url);
+    const parts = parsed.pathname.split("/").filter(Boolean);
+    const isDirectory = parsed.pathname.endsWith("/");
+
+    // Directories keep their trailing slash so `/docs/` and `/docs/intro` share a node
+    const segments = [
+      parsed.host || parsed.protocol,
+      ...parts.map((part, i) => (i < parts.length - 1 || isDirectory ? `${part}/` : part)),
+    ];
+    if (parsed.search) segments[segments.length - 1] += parsed.search;
+    if (parsed.hash) segments.push(decodeURIComponent(parsed.hash));
+    return segments;
+  } catch {
+    return [url];
+  }
+}
+
+function printNode(label: string, node: TreeNode, indent: string): void {
+  const details = node.document
+    ? `  ${node.document.title} ${chalk.gray(`(${formatLength(node.document.content.length)})`)}`
+    : "";
+  console.log(`${indent}${label}${chalk.cyan(details)}`);
+
+  for (const [segment, child] of node.children) {
+    printNode(segment, child, `${indent}  `);
+  }
+}
+
+function formatLength(characters: number): string {
+  return characters >= 1000 ? `${(characters / 1000).toFixed(1)}k chars` : `${characters} chars`;
+}
@@ -0,0 +1,145 @@
+import { fetchWithRetry } from "./http.js";
+
+// The product token docslurp identifies itself with in robots.txt groups
+const ROBOTS_AGENT = "docslurp";
+
+export interface RobotsRules {
+  isAllowed(url: string): boolean;
+  crawlDelay: number | null; // seconds
+  sitemaps: string[];
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+/**
+ * Fetches and parses robots.txt for an origin.
+ * A missing or unreachable robots.txt allows everything.
+ */
+export async function fetchRobotsRules(origin: string): Promise<RobotsRules> {
+  try {
+    const response = await fetchWithRetry(new URL("/robots.txt", origin).href);
+    if (!response.ok) {
+      return parseRobotsTxt("", origin);
+    }
+    return parseRobotsTxt(await response.text(), origin);
+  } catch {
+    return parseRobotsTxt("", origin);
+  }
+}
+
+/**
+ * Parses robots.txt content into the rules that apply to docslurp.
+ * Uses the group naming docslurp's product token if there is one, otherwise the * group.
+ * Follows Google's matching rules: the longest matching pattern wins, Allow wins ties,
+ * and patterns support * wildcards and $ end anchors.
+ */
+export function parseRobotsTxt(text: string, origin: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+
+    if (field === "sitemap") {
+      try {
+        sitemaps.push(new URL(value, origin).href);
+      } catch {
+        // Invalid URL, skip
+      }
+    } else if (!current) {
+      continue;
+    } else if (field === "allow" || field === "disallow") {
+      // An empty Disallow means "allow everything" - nothing to record
+      if (value) {
+        current.rules.push({ allow: field === "allow", pattern: value });
+      }
+    } else if (field === "crawl-delay") {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  const group =
+    groups.find((g) => g.agents.some((agent) => getProductToken(agent) === ROBOTS_AGENT)) ||
+    groups.find((g) => g.agents.includes("*"));
+
+  const rules = group?.rules || [];
+
+  return {
+    crawlDelay: group?.crawlDelay ?? null,
+    sitemaps,
+    isAllowed(url: string): boolean {
+      let target: string;
+      try {
+        const parsed = new URL(url);
+        target = parsed.pathname + parsed.search;
+      } catch {
+        return true;
+      }
+
+      let best: RobotsRule | null = null;
+      for (const rule of rules) {
+        if (!matchesPattern(rule.pattern, target)) continue;
+        if (
+          !best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow)
+        ) {
+          best = rule;
+        }
+      }
+      return best ? best.allow : true;
+    },
+  };
+}
+
+/**
+ * Gets the product token of a User-agent value: `docslurp/1.0` -> `docslurp`.
+ */
+function getProductToken(agent: string): string {
+  return agent.split("/")[0].trim();
+}
+
+/**
+ * Matches a robots.txt path pattern against a path (plus query string).
+ */
+function matchesPattern(pattern: string, target: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}${anchored ? "$" : ""}`).test(target);
+}
@@ -0,0 +1,102 @@
+import zlib from "zlib";
+import * as cheerio from "cheerio";
+import { RobotsRules } from "./robots.js";
+import { fetchWithRetry } from "./http.js";
+import { HeadersFor } from "./auth.js";
+
+// Guards against sitemap indexes that fan out into thousands of files
+const MAX_SITEMAP_FILES = 50;
+const MAX_SITEMAP_URLS = 50000;
+
+/**
+ * Discovers page URLs for a docs site from its sitemaps.
+ * Looks at the Sitemap: lines in robots.txt, /sitemap.xml at the site root and
+ * next to the start path, plus any extra sitemaps given, and follows sitemap index files.
+ * Only returns URLs on the same origin as the start URL.
+ *
+ * Auth headers and cookies only go to sitemaps on the start URL's origin;
+ * robots.txt can point anywhere.
+ */
+export async function discoverSitemapUrls(
+  startUrl: string,
+  robots: RobotsRules,
+  headersFor: HeadersFor = () => ({}),
+  extraSitemaps: string[] = []
+): Promise<string[]> {
+  const baseUrl = new URL(startUrl);
+  const candidates = new Set<string>([...extraSitemaps, ...robots.sitemaps]);
+
+  // Docs mounted under a path often ship their own sitemap there
+  const startDir = baseUrl.pathname.replace(/[^/]*$/, "");
+  if (startDir !== "/") {
+    candidates.add(new URL(`${startDir}sitemap.xml`, baseUrl.origin).href);
+  }
+  candidates.add(new URL("/sitemap.xml", baseUrl.origin).href);
+
+  const queue = [...candidates];
+  const seenSitemaps = new Set<string>();
+  const pageUrls = new Set<string>();
+
+  while (queue.length > 0 && seenSitemaps.size < MAX_SITEMAP_FILES) {
+    const sitemapUrl = queue.shift()!;
+    if (seenSitemaps.has(sitemapUrl)) continue;
+    seenSitemaps.add(sitemapUrl);
+
+    const xml = await fetchSitemap(sitemapUrl, isSameOrigin(sitemapUrl, baseUrl) ? headersFor(sitemapUrl) : {});
+    if (!xml) continue;
+
+    const $ = cheerio.load(xml, { xml: true });
+
+    // Sitemap index: queue up the child sitemaps
+    $("sitemapindex > sitemap > loc").each((_, element) => {
+      const loc = $(element).text().trim();
+      if (loc) queue.push(loc);
+    });
+
+    $("urlset > url > loc").each((_, element) => {
+      if (pageUrls.size >= MAX_SITEMAP_URLS) return false;
+      const loc = $(element).text().trim();
+      try {
+        const pageUrl = new URL(loc);
+        if (pageUrl.origin === baseUrl.origin) {
+          pageUrl.hash = "";
+          pageUrls.add(pageUrl.href);
+        }
+      } catch {
+        // Invalid URL, skip
+      }
+    });
+  }
+
+  return [...pageUrls];
+}
+
+function isSameOrigin(url: string, baseUrl: URL): boolean {
+  try {
+    return new URL(url).origin === baseUrl.origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetches a sitemap file, transparently handling gzipped sitemaps.
+ * Returns null if the sitemap is missing or isn't XML.
+ */
+async function fetchSitemap(url: string, headers: Record<string, string>): Promise<string | null> {
+  try {
+    const response = await fetchWithRetry(url, { headers });
+    if (!response.ok) return null;
+
+    let body = Buffer.from(await response.arrayBuffer());
+    // gzip magic bytes - fetch only decompresses Content-Encoding, not .xml.gz files
+    if (body[0] === 0x1f && body[1] === 0x8b) {
+      body = zlib.gunzipSync(body);
+    }
+
+    const xml = body.toString("utf-8");
+    return xml.includes("<urlset") || xml.includes("<sitemapindex") ? xml : null;
+  } catch {
+    return null;
+  }
+}
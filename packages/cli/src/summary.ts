@@ -0,0 +1,34 @@
+import chalk from "chalk";
+import { CrawlResult } from "./crawl.js";
+
+const MAX_LISTED_URLS = 10;
+
+/**
+ * Prints where a crawl's pages came from and the URLs it skipped and why,
+ * grouped under the crawl spinner.
+ */
+export function printCrawlSummary(
+  result: CrawlResult,
+  indent = "",
+  maxListed = MAX_LISTED_URLS
+): void {
+  const { skipped, llmsTxt, duplicates = [] } = result;
+
+  if (llmsTxt) {
+    console.log(chalk.gray(`${indent}Used ${llmsTxt} (pass --no-llms-txt to crawl the site instead)`));
+  }
+
+  if (duplicates.length > 0) {
+    console.log(chalk.gray(`${indent}Dropped ${duplicates.length} duplicate page(s)`));
+  }
+
+  if (skipped.length === 0) return;
+
+  console.log(chalk.yellow(`${indent}Skipped ${skipped.length} URL(s):`));
+  for (const entry of skipped.slice(0, maxListed)) {
+    console.log(chalk.gray(`${indent}  - ${entry.url} (${entry.reason})`));
+  }
+  if (skipped.length > maxListed) {
+    console.log(chalk.gray(`${indent}  ...and ${skipped.length - maxListed} more`));
+  }
+}
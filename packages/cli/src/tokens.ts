@@ -0,0 +1,17 @@
+import { getEncoding, Tiktoken } from "js-tiktoken";
+
+// The BPE encoding of OpenAI's embedding models. Other providers' models use
+// their own tokenizers, but this stays close enough to size chunks for them.
+const ENCODING = "cl100k_base";
+
+let encoder: Tiktoken | null = null;
+
+/**
+ * Counts the tokens in a text the way the embedding model does.
+ * The encoder's ranks take a moment to load, so it's created on first use.
+ */
+export function countTokens(text: string): number {
+  encoder ??= getEncoding(ENCODING);
+  // Docs may quote special tokens like <|endoftext|>; count them instead of throwing
+  return encoder.encode(text, "all").length;
+}
@@ -0,0 +1,124 @@
+export interface UrlFilterOptions {
+  include?: string[];
+  exclude?: string[];
+  pathScope?: boolean;
+}
+
+/**
+ * Returns why a URL is out of scope for a crawl, or null if it should be crawled.
+ */
+export type UrlFilter = (url: string) => string | null;
+
+const REGEX_PREFIX = "re:";
+
+/**
+ * Builds the URL filter shared by all crawl backends.
+ *
+ * Patterns are globs matched against the URL path (`/docs/v2/**`, `*.html`,
+ * `changelog/**`), or regexes tested against the full URL when prefixed
+ * with `re:` (`re:\?lang=`).
+ *
+ * By default a crawl stays under the start URL's path. Include patterns replace
+ * that scope, exclude patterns always win, and pathScope: false turns scoping off.
+ */
+export function createUrlFilter(
+  startUrl: string,
+  options: UrlFilterOptions = {}
+): UrlFilter {
+  const includes = (options.include || []).map(compilePattern);
+  const excludes = (options.exclude || []).map(compilePattern);
+  const scopePath = options.pathScope === false ? null : getScopePath(startUrl);
+
+  return (url: string) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return "invalid URL";
+    }
+
+    if (excludes.some((test) => test(parsed))) {
+      return "matches an exclude pattern";
+    }
+
+    if (includes.length > 0) {
+      return includes.some((test) => test(parsed)) ? null : "doesn't match an include pattern";
+    }
+
+    if (scopePath && !isUnderPath(parsed.pathname, scopePath)) {
+      return `outside ${scopePath}`;
+    }
+
+    return null;
+  };
+}
+
+/**
+ * Gets the directory a crawl is scoped to.
+ * `/docs/v2/` and `/docs/v2` both scope to `/docs/v2/`; `/docs/v2/intro.html` scopes to its folder.
+ */
+export function getScopePath(startUrl: string): string {
+  const pathname = new URL(startUrl).pathname;
+  const lastSegment = pathname.slice(pathname.lastIndexOf("/") + 1);
+
+  if (lastSegment.includes(".")) {
+    return pathname.slice(0, pathname.length - lastSegment.length);
+  }
+  return pathname.endsWith("/") ? pathname : `${pathname}/`;
+}
+
+function isUnderPath(pathname: string, scopePath: string): boolean {
+  // Let /docs/v2 through for a /docs/v2/ scope
+  return pathname.startsWith(scopePath) || `${pathname}/` === scopePath;
+}
+
+/**
+ * Tells `re:` patterns, which match the full URL, from path globs.
+ */
+export function isRegexPattern(pattern: string): boolean {
+  return pattern.startsWith(REGEX_PREFIX);
+}
+
+/**
+ * Converts a glob pattern or `re:` pattern into a regex source string.
+ * Globs are anchored to the whole path; patterns not starting with / match at any depth.
+ */
+export function patternToRegexSource(pattern: string): string {
+  if (isRegexPattern(pattern)) {
+    return pattern.slice(REGEX_PREFIX.length);
+  }
+
+  const glob = pattern.startsWith("/") ? pattern : `**/${pattern}`;
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches zero directories
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return `^${source}$`;
+}
+
+function compilePattern(pattern: string): (url: URL) => boolean {
+  const regex = new RegExp(patternToRegexSource(pattern));
+
+  if (isRegexPattern(pattern)) {
+    return (url) => regex.test(url.href);
+  }
+  return (url) => regex.test(url.pathname);
+}
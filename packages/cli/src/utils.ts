@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import path from "path";
 import os from "os";
 
@@ -8,3 +9,19 @@ export function getServersDir(): string {
 export function getDataDir(): string {
   return path.join(os.homedir(), ".docslurp");
 }
+
+export const USER_AGENT = "docslurp/1.0 (https://github.com/jamesagudo/docslurp)";
+
+/**
+ * Sleep for a given number of milliseconds.
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+/**
+ * Hashes a page's text so unchanged pages can be recognised between crawls.
+ */
+export function hashContent(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
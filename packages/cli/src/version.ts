@@ -0,0 +1,38 @@
+import { DocumentChunk } from "./chunk.js";
+
+// Path segments that name a docs version: v2, v1.4, 2.0, 3.x, latest, stable
+const VERSION_SEGMENT = /^(v\d+(\.\d+)*(\.x)?|\d+\.(\d+|x)(\.\d+)*|latest|stable)$/i;
+
+/**
+ * Detects a docs version from a URL's path, e.g. `/docs/v2/intro` -> `v2`
+ * or `/en/3.12/library/` -> `3.12`. Returns null if no segment looks like a version.
+ */
+export function detectVersion(url: string): string | null {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return null;
+  }
+
+  // Bare numbers only count as directories: `/changelog/2.0` is a page,
+  // `/2.0/changelog` is a version. `/docs/v2` is a version either way.
+  const segments = pathname.split("/").slice(1);
+  const last = segments.pop() || "";
+  for (const segment of segments) {
+    if (VERSION_SEGMENT.test(segment)) {
+      return segment;
+    }
+  }
+  return /^v\d/i.test(last) && VERSION_SEGMENT.test(last) ? last : null;
+}
+
+/**
+ * Labels chunks with a version: the source's label if it has one,
+ * otherwise whatever the chunk's page URL says.
+ */
+export function applyVersion(chunks: DocumentChunk[], label: string | null | undefined): void {
+  for (const chunk of chunks) {
+    chunk.version = label || detectVersion(chunk.url) || undefined;
+  }
+}
@@ -0,0 +1,69 @@
+import OpenAI from "openai";
+import path from "path";
+import { EmbeddingConfig } from "./vectorstore.js";
+
+export type QueryEmbedder = (text: string) => Promise<number[]>;
+
+type LocalExtractor = (
+  text: string,
+  options: { pooling: "mean"; normalize: boolean }
+) => Promise<{ data: Float32Array }>;
+
+// The part of transformers.js the server uses
+interface TransformersModule {
+  env: { cacheDir: string; localModelPath: string; allowRemoteModels: boolean };
+  pipeline(task: "feature-extraction", model: string): Promise<LocalExtractor>;
+}
+
+// Optional dependency, only installed for servers built with a local model
+const TRANSFORMERS_PACKAGE = "@huggingface/transformers";
+
+/**
+ * Create the function that embeds search queries, with the same model the
+ * index was built with: OpenAI, an OpenAI-compatible API, or a local
+ * transformers.js model.
+ */
+export function createQueryEmbedder(config: EmbeddingConfig): QueryEmbedder {
+  if (config.provider === "local") {
+    let extractor: Promise<LocalExtractor> | null = null;
+    return async (text) => {
+      extractor ??= loadLocalModel(config.model, config.modelCacheDir);
+      const output = await (await extractor)(text, { pooling: "mean", normalize: true });
+      return Array.from(output.data);
+    };
+  }
+
+  const compatible = config.provider === "openai-compatible";
+  const openai = compatible
+    ? new OpenAI({
+        baseURL: config.baseUrl,
+        apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY || "unused",
+      })
+    : new OpenAI();
+
+  return async (text) => {
+    const response = await openai.embeddings.create({
+      model: config.model,
+      input: text,
+      ...(compatible && { encoding_format: "float" as const }),
+    });
+    return response.data[0].embedding;
+  };
+}
+
+/**
+ * Load a transformers.js model from the cache docslurp downloaded it to,
+ * or from its directory without the network.
+ */
+async function loadLocalModel(model: string, cacheDir?: string): Promise<LocalExtractor> {
+  const { pipeline, env }: TransformersModule = await import(TRANSFORMERS_PACKAGE);
+  if (cacheDir) {
+    env.cacheDir = cacheDir;
+  }
+  if (path.isAbsolute(model)) {
+    env.localModelPath = path.dirname(model);
+    env.allowRemoteModels = false;
+    model = path.basename(model);
+  }
+  return pipeline("feature-extraction", model);
+}
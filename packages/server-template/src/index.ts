@@ -6,8 +6,8 @@
  * by the CLI and written directly to the server directory.
  *
  * Each generated server includes:
- * - search: Semantic search across documentation
- * - ask: Q&A with citations
+ * - search: Semantic search across documentation, optionally for one version or chunk type
+ * - ask: Q&A with citations, optionally for one version
  * - sources: List all indexed pages
  */
 
@@ -20,6 +20,13 @@ import { search, ask, listSources } from "./search.js";
 const SERVER_NAME = process.env.DOCSLURP_SERVER_NAME || "docslurp-server";
 
 const vectorStore = new VectorStore();
+// Versions present in the index, offered as the version filter
+const versions = vectorStore.getVersions();
+const versionDescription =
+  versions.length > 0
+    ? `Only use docs for this version. Available: ${versions.join(", ")}`
+    : "Only use docs for this version";
+
 const server = new McpServer({
   name: SERVER_NAME,
   version: "1.0.0",
@@ -32,10 +39,15 @@ server.tool(
   {
     query: z.string().describe("What to search for"),
     limit: z.number().optional().describe("Number of results (default 5)"),
+    version: z.string().optional().describe(versionDescription),
+    type: z
+      .enum(["prose", "code", "table"])
+      .optional()
+      .describe("Only return passages that are mostly this: explanations, code samples or tables"),
   },
-  async ({ query, limit = 5 }) => {
+  async ({ query, limit = 5, version, type }) => {
     try {
-      const results = await search(vectorStore, query, limit);
+      const results = await search(vectorStore, query, limit, version, type);
       return {
         content: [{ type: "text", text: results }],
       };
@@ -54,10 +66,11 @@ server.tool(
   "Ask a question about the documentation and get an answer with sources.",
   {
     question: z.string().describe("Your question"),
+    version: z.string().optional().describe(versionDescription),
   },
-  async ({ question }) => {
+  async ({ question, version }) => {
     try {
-      const answer = await ask(vectorStore, question);
+      const answer = await ask(vectorStore, question, version);
       return {
         content: [{ type: "text", text: answer }],
       };
@@ -1,17 +1,22 @@
-import OpenAI from "openai";
-import { VectorStore } from "./vectorstore.js";
+import { VectorStore, ChunkType, SearchResult } from "./vectorstore.js";
+import { createQueryEmbedder, QueryEmbedder } from "./embedder.js";
 
-const openai = new OpenAI();
+let embedQuery: QueryEmbedder | null = null;
 
 /**
- * Generate an embedding for the given text using OpenAI's API.
+ * Generate an embedding for the given text with the index's embedding model.
  */
-async function getEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
-    model: "text-embedding-3-small",
-    input: text,
-  });
-  return response.data[0].embedding;
+async function getEmbedding(store: VectorStore, text: string): Promise<number[]> {
+  embedQuery ??= createQueryEmbedder(store.getEmbeddingConfig());
+  return embedQuery(text);
+}
+
+/**
+ * Link to the section a passage is from, unless the URL already has a fragment
+ * (single-page app routes, API operations).
+ */
+function citationUrl(result: SearchResult): string {
+  return result.anchor && !result.url.includes("#") ? `${result.url}#${result.anchor}` : result.url;
 }
 
 /**
@@ -21,10 +26,12 @@ async function getEmbedding(text: string): Promise<number[]> {
 export async function search(
   store: VectorStore,
   query: string,
-  limit: number
+  limit: number,
+  version?: string,
+  type?: ChunkType
 ): Promise<string> {
-  const embedding = await getEmbedding(query);
-  const results = store.findSimilar(embedding, limit);
+  const embedding = await getEmbedding(store, query);
+  const results = store.findSimilar(embedding, limit, version, type);
 
   if (results.length === 0) {
     return "No results found.";
@@ -32,7 +39,10 @@ export async function search(
 
   return results
     .map(
-      (r, i) => `[${i + 1}] ${r.title}\n${r.content}\nSource: ${r.url}`
+      (r, i) =>
+        `[${i + 1}] ${r.title}${r.version ? ` (${r.version})` : ""}\n` +
+        (r.breadcrumb ? `Section: ${r.breadcrumb}\n` : "") +
+        `${r.content}\nSource: ${citationUrl(r)}`
     )
     .join("\n\n---\n\n");
 }
@@ -43,17 +53,18 @@ export async function search(
  */
 export async function ask(
   store: VectorStore,
-  question: string
+  question: string,
+  version?: string
 ): Promise<string> {
-  const embedding = await getEmbedding(question);
-  const results = store.findSimilar(embedding, 5);
+  const embedding = await getEmbedding(store, question);
+  const results = store.findSimilar(embedding, 5, version);
 
   if (results.length === 0) {
     return "I couldn't find any relevant information in the documentation.";
   }
 
   const context = results.map((r) => r.content).join("\n\n");
-  const sources = [...new Set(results.map((r) => r.url))];
+  const sources = [...new Set(results.map(citationUrl))];
 
   return `Based on the documentation:\n\n${context}\n\nSources:\n${sources.map((s) => `- ${s}`).join("\n")}`;
 }
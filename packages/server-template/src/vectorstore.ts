@@ -5,18 +5,36 @@ import { fileURLToPath } from "url";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+export type ChunkType = "prose" | "code" | "table";
+
 export interface SearchResult {
   content: string;
   url: string;
   title: string;
+  breadcrumb: string | null;
+  anchor: string | null;
+  version: string | null;
+  chunk_type: ChunkType | null;
   distance: number;
 }
 
+export interface EmbeddingConfig {
+  provider: "openai" | "openai-compatible" | "local";
+  model: string;
+  baseUrl?: string;
+  // Where docslurp downloaded a local model to
+  modelCacheDir?: string;
+}
+
 export interface SourcePage {
   url: string;
   title: string;
 }
 
+function normalizeVersion(version: string): string {
+  return version.trim().toLowerCase().replace(/^v/, "");
+}
+
 /**
  * Handles all vector database operations.
  * Uses SQLite with the sqlite-vec extension for efficient similarity search.
@@ -31,29 +49,78 @@ export class VectorStore {
   }
 
   /**
-   * Find chunks similar to the given embedding vector.
+   * Find chunks similar to the given embedding vector,
+   * optionally only from one version of the docs or of one type.
    */
-  findSimilar(embedding: number[], limit: number): SearchResult[] {
+  findSimilar(embedding: number[], limit: number, version?: string, type?: ChunkType): SearchResult[] {
     const embeddingBuffer = new Float32Array(embedding).buffer;
 
-    const results = this.db
+    // Filters go inside the nearest-neighbour search, so it finds `limit`
+    // matches however small a share of the index they are
+    const filters: string[] = [];
+    const params: unknown[] = [];
+    if (version) {
+      const wanted = normalizeVersion(version);
+      filters.push("version IN (SELECT value FROM json_each(?))");
+      params.push(JSON.stringify(this.getVersions().filter((v) => normalizeVersion(v) === wanted)));
+    }
+    if (type) {
+      // Chunks indexed before types existed count as prose
+      filters.push("COALESCE(chunk_type, 'prose') = ?");
+      params.push(type);
+    }
+    const rowFilter = filters.length > 0
+      ? `AND vec_chunks.rowid IN (SELECT id FROM chunks WHERE ${filters.join(" AND ")})`
+      : "";
+
+    return this.db
       .prepare(
         `
       SELECT
         chunks.content,
         chunks.url,
         chunks.title,
+        chunks.breadcrumb,
+        chunks.version,
+        chunks.chunk_type,
+        chunks.anchor,
         vec_chunks.distance
       FROM vec_chunks
       LEFT JOIN chunks ON chunks.id = vec_chunks.rowid
       WHERE embedding MATCH ?
         AND k = ?
+        ${rowFilter}
       ORDER BY distance
     `
       )
-      .all(new Uint8Array(embeddingBuffer), limit) as SearchResult[];
+      .all(new Uint8Array(embeddingBuffer), limit, ...params) as SearchResult[];
+  }
 
-    return results;
+  /**
+   * Get the versions present in the index.
+   */
+  getVersions(): string[] {
+    const rows = this.db
+      .prepare("SELECT DISTINCT version FROM chunks WHERE version IS NOT NULL ORDER BY version")
+      .all() as Array<{ version: string }>;
+    return rows.map((r) => r.version);
+  }
+
+  /**
+   * Get the embedding model the index was built with.
+   */
+  getEmbeddingConfig(): EmbeddingConfig {
+    const rows = this.db.prepare("SELECT key, value FROM metadata").all() as Array<{
+      key: string;
+      value: string;
+    }>;
+    const metadata = new Map(rows.map((r) => [r.key, r.value]));
+    return {
+      provider: (metadata.get("embedding_provider") as EmbeddingConfig["provider"]) || "openai",
+      model: metadata.get("embedding_model") || "text-embedding-3-small",
+      baseUrl: metadata.get("embedding_base_url"),
+      modelCacheDir: metadata.get("model_cache_dir"),
+    };
   }
 
   /**